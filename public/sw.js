@@ -0,0 +1,62 @@
+// Caches the app shell so the survey page opens without a network. Pages
+// are fetched network first, falling back to the cached index.html; built
+// assets are content-hashed, so they're served from the cache once seen.
+// Other origins (Supabase, the REST API) are never cached: the survey page
+// keeps its own copy of the survey, and responses queued offline are sent
+// by the page (src/lib/submission-queue.ts).
+
+// Filled in at build time by the precache-assets plugin in vite.config.ts.
+// The worker registers after the bundle has loaded, so the assets have to
+// be cached on install rather than as they're fetched.
+const BUILD = 'dev';
+const ASSETS = [];
+
+const CACHE = `survey-shell-${BUILD}`;
+const INDEX = './index.html';
+const SHELL = [INDEX, './favicon.ico', './icon.svg', './manifest.webmanifest', ...ASSETS];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheCopy = (key, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE).then(cache => cache.put(key, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Every route is the same single-page app, so one cached index.html serves them all.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => cacheCopy(INDEX, response))
+        .catch(() => caches.match(INDEX))
+    );
+    return;
+  }
+
+  if (url.pathname.includes('/assets/')) {
+    event.respondWith(
+      caches.match(request).then(cached => cached || fetch(request).then(response => cacheCopy(request, response)))
+    );
+  }
+});
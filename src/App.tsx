@@ -3,25 +3,69 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { AuthProvider } from "@/contexts/AuthContext";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { DEFAULT_SURVEY_SLUG } from "@/lib/surveys";
 import Survey from "./pages/Survey";
 import Dashboard from "./pages/Dashboard";
+import Auth from "./pages/Auth";
+import SurveyAdmin from "./pages/SurveyAdmin";
+import SurveyBuilder from "./pages/SurveyBuilder";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Failed queries retry with exponential backoff, except permission errors
+// (Postgres 42501), which retrying won't fix.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30000,
+      retry: (failureCount, error) => failureCount < 3 && (error as { code?: string }).code !== "42501",
+      retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 30000)
+    }
+  }
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Survey />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Survey />} />
+            <Route path="/s/:slug" element={<Survey />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/dashboard" element={<Navigate to={`/dashboard/${DEFAULT_SURVEY_SLUG}`} replace />} />
+            <Route
+              path="/dashboard/:slug"
+              element={
+                <ProtectedRoute role="viewer">
+                  <Dashboard />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/surveys"
+              element={
+                <ProtectedRoute role="admin">
+                  <SurveyAdmin />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/surveys/:slug"
+              element={
+                <ProtectedRoute role="admin">
+                  <SurveyBuilder />
+                </ProtectedRoute>
+              }
+            />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
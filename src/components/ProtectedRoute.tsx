@@ -0,0 +1,47 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth, type AppRole } from '@/hooks/use-auth';
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  role?: AppRole;
+}
+
+const ProtectedRoute = ({ children, role = 'viewer' }: ProtectedRouteProps) => {
+  const { user, loading, hasRole, signOut } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  if (!hasRole(role)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+        <Card className="max-w-md w-full text-center py-8">
+          <CardContent className="space-y-4">
+            <h2 className="text-2xl font-semibold text-gray-700">Access denied</h2>
+            <p className="text-gray-500">
+              Your account ({user.email}) doesn't have access to this page. Ask an admin to grant you a role.
+            </p>
+            <Button variant="outline" onClick={signOut}>Sign out</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import type { SurveyOption } from '@/lib/survey-schema';
+
+interface OptionListEditorProps {
+  label: string;
+  items: SurveyOption[];
+  addLabel: string;
+  // Ids used by earlier versions that no current item has; an item can be
+  // marked as replacing them so old answers are counted under it.
+  retiredIds?: string[];
+  onChange: (items: SurveyOption[]) => void;
+}
+
+const OptionListEditor = ({ label, items, addLabel, retiredIds = [], onChange }: OptionListEditorProps) => {
+  const updateItem = (index: number, changes: Partial<SurveyOption>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const claimed = new Set(items.flatMap(item => item.replaces || []));
+  const unclaimed = retiredIds.filter(id => !claimed.has(id));
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {items.map((item, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Input
+              value={item.icon || ''}
+              onChange={(e) => updateItem(index, { icon: e.target.value || undefined })}
+              placeholder="Icon"
+              aria-label="Icon"
+              className="w-16 text-center"
+            />
+            <Input
+              value={item.label}
+              onChange={(e) => updateItem(index, { label: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove "${item.label}"`}
+              disabled={items.length <= 1}
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span>{item.id ? `id: ${item.id}` : 'id assigned on save'}</span>
+            {(item.replaces || []).map((id) => (
+              <Badge key={id} variant="secondary" className="gap-1">
+                replaces {id}
+                <button
+                  type="button"
+                  aria-label={`Stop replacing ${id}`}
+                  onClick={() => updateItem(index, { replaces: item.replaces.filter(other => other !== id) })}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            {unclaimed.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(id) => updateItem(index, { replaces: [...(item.replaces || []), id] })}
+              >
+                <SelectTrigger className="h-6 w-auto text-xs">
+                  <SelectValue placeholder="Replaces…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {unclaimed.map((id) => (
+                    <SelectItem key={id} value={id}>{id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...items, { id: '', label: `${addLabel} ${items.length + 1}` }])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add {addLabel.toLowerCase()}
+      </Button>
+    </div>
+  );
+};
+
+export default OptionListEditor;
@@ -0,0 +1,222 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import OptionListEditor from './OptionListEditor';
+import { withQuestionType } from '@/lib/survey-builder';
+import {
+  QUESTION_TYPE_LABELS,
+  isChoiceQuestion,
+  type QuestionType,
+  type SurveyQuestion,
+  type SurveySection
+} from '@/lib/survey-schema';
+
+interface QuestionEditorProps {
+  question: SurveyQuestion;
+  index: number;
+  total: number;
+  retiredOptionIds?: string[];
+  sections?: SurveySection[];
+  onChange: (question: SurveyQuestion) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+// Radix Select doesn't allow an empty item value.
+const NO_SECTION = '__none__';
+
+const QuestionEditor = ({ question, index, total, retiredOptionIds, sections = [], onChange, onMove, onRemove }: QuestionEditorProps) => {
+  const update = (changes: Partial<SurveyQuestion>) => onChange({ ...question, ...changes });
+  const fieldId = `builder-${index}`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 py-3">
+        <span className="text-sm font-medium text-muted-foreground">
+          Question {index + 1} · {QUESTION_TYPE_LABELS[question.type]}
+        </span>
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="icon" aria-label="Move up" disabled={index === 0} onClick={() => onMove(-1)}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" aria-label="Move down" disabled={index === total - 1} onClick={() => onMove(1)}>
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" aria-label="Delete question" disabled={total <= 1} onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${fieldId}-title`}>Question</Label>
+          <Input
+            id={`${fieldId}-title`}
+            value={question.title}
+            onChange={(e) => update({ title: e.target.value })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${fieldId}-id`}>Question ID</Label>
+            <Input
+              id={`${fieldId}-id`}
+              value={question.id}
+              onChange={(e) => update({ id: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={question.type}
+              onValueChange={(type) => onChange(withQuestionType(question, type as QuestionType))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {sections.length > 0 && (
+          <div className="space-y-2">
+            <Label>Section</Label>
+            <Select
+              value={question.section || NO_SECTION}
+              onValueChange={(section) => update({ section: section === NO_SECTION ? undefined : section })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SECTION}>No section</SelectItem>
+                {sections.map((section) => (
+                  <SelectItem key={section.id} value={section.id}>{section.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`${fieldId}-help`}>Help text</Label>
+          <Input
+            id={`${fieldId}-help`}
+            value={question.helpText || ''}
+            onChange={(e) => update({ helpText: e.target.value || undefined })}
+          />
+        </div>
+
+        {(question.type === 'text' || question.type === 'long_text') && (
+          <div className="space-y-2">
+            <Label htmlFor={`${fieldId}-placeholder`}>Placeholder</Label>
+            <Input
+              id={`${fieldId}-placeholder`}
+              value={question.placeholder || ''}
+              onChange={(e) => update({ placeholder: e.target.value || undefined })}
+            />
+          </div>
+        )}
+
+        {(isChoiceQuestion(question) || question.type === 'matrix') && (
+          <OptionListEditor
+            label={question.type === 'matrix' ? 'Columns' : 'Options'}
+            addLabel={question.type === 'matrix' ? 'Column' : 'Option'}
+            items={question.options || []}
+            retiredIds={retiredOptionIds}
+            onChange={(options) => update({ options })}
+          />
+        )}
+
+        {question.type === 'matrix' && (
+          <OptionListEditor
+            label="Rows"
+            addLabel="Statement"
+            items={question.rows || []}
+            onChange={(rows) => update({ rows })}
+          />
+        )}
+
+        {question.type === 'rating' && (
+          <div className="space-y-2">
+            <Label>Scale</Label>
+            <Select
+              value={String(question.scaleMax || 5)}
+              onValueChange={(value) => update({ scaleMax: Number(value) })}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[3, 5, 7, 10].map((max) => (
+                  <SelectItem key={max} value={String(max)}>1 – {max}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {(question.type === 'rating' || question.type === 'nps') && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${fieldId}-min-label`}>Low end label</Label>
+              <Input
+                id={`${fieldId}-min-label`}
+                value={question.minLabel || ''}
+                onChange={(e) => update({ minLabel: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${fieldId}-max-label`}>High end label</Label>
+              <Input
+                id={`${fieldId}-max-label`}
+                value={question.maxLabel || ''}
+                onChange={(e) => update({ maxLabel: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`${fieldId}-required`}
+              checked={question.required}
+              onCheckedChange={(required) => update({ required })}
+            />
+            <Label htmlFor={`${fieldId}-required`}>Required</Label>
+          </div>
+          {isChoiceQuestion(question) && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`${fieldId}-other`}
+                checked={!!question.allowOther}
+                onCheckedChange={(allowOther) => update({ allowOther })}
+              />
+              <Label htmlFor={`${fieldId}-other`}>Allow "Other" answer</Label>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionEditor;
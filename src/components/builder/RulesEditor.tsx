@@ -0,0 +1,217 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  isChoiceQuestion,
+  questionOptions,
+  type ConditionOperator,
+  type SurveyCondition,
+  type SurveyDefinition,
+  type SurveyRule
+} from '@/lib/survey-schema';
+
+interface RulesEditorProps {
+  definition: SurveyDefinition;
+  onAdd: () => void;
+  onChange: (index: number, rule: SurveyRule) => void;
+  onRemove: (index: number) => void;
+}
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  includes: 'includes',
+  not_includes: 'does not include',
+  answered: 'is answered',
+  not_answered: 'is not answered',
+  greater_than: 'is greater than',
+  less_than: 'is less than'
+};
+
+const ACTION_LABELS: Record<SurveyRule['action'], string> = {
+  show: 'Only show question',
+  hide: 'Hide question',
+  require: 'Require question',
+  skip_to: 'Skip to section'
+};
+
+const needsValue = (operator: ConditionOperator) => operator !== 'answered' && operator !== 'not_answered';
+
+const RulesEditor = ({ definition, onAdd, onChange, onRemove }: RulesEditorProps) => {
+  const sections = definition.sections || [];
+
+  const renderCondition = (rule: SurveyRule, ruleIndex: number, condition: SurveyCondition, index: number) => {
+    const question = definition.questions.find(q => q.id === condition.question);
+    const updateCondition = (changes: Partial<SurveyCondition>) =>
+      onChange(ruleIndex, {
+        ...rule,
+        when: rule.when.map((c, i) => (i === index ? { ...c, ...changes } : c))
+      });
+
+    return (
+      <div key={index} className="flex flex-wrap items-center gap-2">
+        <Select
+          value={condition.question}
+          onValueChange={(id) => updateCondition({ question: id, value: undefined })}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Question" />
+          </SelectTrigger>
+          <SelectContent>
+            {definition.questions.map((q) => (
+              <SelectItem key={q.id} value={q.id}>{q.title || q.id}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={condition.operator}
+          onValueChange={(operator) => updateCondition({ operator: operator as ConditionOperator })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(OPERATOR_LABELS).map(([operator, label]) => (
+              <SelectItem key={operator} value={operator}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {needsValue(condition.operator) && (question && isChoiceQuestion(question) ? (
+          <Select
+            value={condition.value === undefined ? '' : String(condition.value)}
+            onValueChange={(value) => updateCondition({ value })}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Option" />
+            </SelectTrigger>
+            <SelectContent>
+              {questionOptions(question).filter(option => option.id).map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            value={condition.value ?? ''}
+            onChange={(e) => updateCondition({ value: e.target.value })}
+            placeholder="Value"
+            aria-label="Value"
+            className="w-32"
+          />
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          aria-label="Remove condition"
+          disabled={rule.when.length <= 1}
+          onClick={() => onChange(ruleIndex, { ...rule, when: rule.when.filter((_, i) => i !== index) })}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Rules</Label>
+      {(definition.rules || []).length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Rules show, hide or require questions, or skip sections, based on earlier answers.
+        </p>
+      )}
+      {(definition.rules || []).map((rule, index) => {
+        const targets = rule.action === 'skip_to'
+          ? sections.map(section => ({ id: section.id, label: section.title }))
+          : definition.questions.map(question => ({ id: question.id, label: question.title || question.id }));
+
+        return (
+          <div key={index} className="space-y-2 rounded-md border p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={rule.action}
+                onValueChange={(action) => onChange(index, { ...rule, action: action as SurveyRule['action'], target: '' })}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ACTION_LABELS)
+                    .filter(([action]) => action !== 'skip_to' || sections.length > 0)
+                    .map(([action, label]) => (
+                      <SelectItem key={action} value={action}>{label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Select value={rule.target} onValueChange={(target) => onChange(index, { ...rule, target })}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder={rule.action === 'skip_to' ? 'Section' : 'Question'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((target) => (
+                    <SelectItem key={target.id} value={target.id}>{target.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="ml-auto"
+                aria-label="Delete rule"
+                onClick={() => onRemove(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              when
+              <Select
+                value={rule.match}
+                onValueChange={(match) => onChange(index, { ...rule, match: match as SurveyRule['match'] })}
+              >
+                <SelectTrigger className="h-8 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">all</SelectItem>
+                  <SelectItem value="any">any</SelectItem>
+                </SelectContent>
+              </Select>
+              of these match:
+            </div>
+            {rule.when.map((condition, conditionIndex) => renderCondition(rule, index, condition, conditionIndex))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(index, {
+                ...rule,
+                when: [...rule.when, { question: definition.questions[0].id, operator: 'answered' }]
+              })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add condition
+            </Button>
+          </div>
+        );
+      })}
+      <Button type="button" variant="outline" size="sm" onClick={onAdd}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add rule
+      </Button>
+    </div>
+  );
+};
+
+export default RulesEditor;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SurveySection } from '@/lib/survey-schema';
+
+interface SectionListEditorProps {
+  sections: SurveySection[];
+  onAdd: () => void;
+  onChange: (index: number, section: SurveySection) => void;
+  onRemove: (index: number) => void;
+}
+
+const SectionListEditor = ({ sections, onAdd, onChange, onRemove }: SectionListEditorProps) => (
+  <div className="space-y-2">
+    <Label>Sections</Label>
+    {sections.length === 0 && (
+      <p className="text-sm text-muted-foreground">
+        Without sections every question is shown in one list.
+      </p>
+    )}
+    {sections.map((section, index) => (
+      <div key={section.id} className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Input
+            value={section.title}
+            onChange={(e) => onChange(index, { ...section, title: e.target.value })}
+            aria-label="Section title"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={`Remove "${section.title}"`}
+            onClick={() => onRemove(index)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <Input
+          value={section.description || ''}
+          onChange={(e) => onChange(index, { ...section, description: e.target.value || undefined })}
+          placeholder="Description (optional)"
+          aria-label="Section description"
+        />
+        <p className="text-xs text-muted-foreground">id: {section.id}</p>
+      </div>
+    ))}
+    <Button type="button" variant="outline" size="sm" onClick={onAdd}>
+      <Plus className="h-4 w-4 mr-1" />
+      Add section
+    </Button>
+  </div>
+);
+
+export default SectionListEditor;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  PieChart,
+  Pie,
+  Cell,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { COLORS } from '@/lib/chart-colors';
+
+export interface ChartDatum {
+  name: string;
+  value: number;
+}
+
+interface AnswerChartProps {
+  title: string;
+  data: ChartDatum[];
+  variant: 'pie' | 'bar';
+  barColor?: string;
+}
+
+const AnswerChart = ({ title, data, variant, barColor = '#8884d8' }: AnswerChartProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>{title}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <ResponsiveContainer width="100%" height={300}>
+        {variant === 'pie' ? (
+          <PieChart>
+            <Pie
+              data={data}
+              cx="50%"
+              cy="50%"
+              labelLine={false}
+              label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+              outerRadius={80}
+              fill="#8884d8"
+              dataKey="value"
+            >
+              {data.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              ))}
+            </Pie>
+            <Tooltip />
+          </PieChart>
+        ) : (
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="name"
+              angle={-45}
+              textAnchor="end"
+              height={100}
+              fontSize={data.length > 6 ? 10 : 12}
+            />
+            <YAxis />
+            <Tooltip />
+            <Bar dataKey="value" fill={barColor} />
+          </BarChart>
+        )}
+      </ResponsiveContainer>
+    </CardContent>
+  </Card>
+);
+
+export default AnswerChart;
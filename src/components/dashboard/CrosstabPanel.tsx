@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useQueryErrorToast } from '@/hooks/use-query-error-toast';
+import { useCrosstab } from '@/hooks/use-responses';
+import { COLORS } from '@/lib/chart-colors';
+import {
+  SIGNIFICANCE_LEVEL,
+  buildCrosstab,
+  chiSquareTest,
+  isCrosstabQuestion
+} from '@/lib/crosstab';
+import type { StatsArgs } from '@/lib/responses';
+import type { SurveyVersion } from '@/lib/surveys';
+import type { SurveyDefinition } from '@/lib/survey-schema';
+
+type CellMode = 'count' | 'row' | 'column';
+
+interface CrosstabPanelProps {
+  surveyId: string;
+  definition: SurveyDefinition;
+  versions: SurveyVersion[];
+  // The same version, quality and filter arguments the charts use.
+  statsArgs: StatsArgs;
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+const formatPValue = (p: number) => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+/** Counts and percentages for every pair of answers to two questions, with a chi-square test. */
+const CrosstabPanel = ({ surveyId, definition, versions, statsArgs }: CrosstabPanelProps) => {
+  const questions = definition.questions.filter(isCrosstabQuestion);
+  const [rowQuestionId, setRowQuestionId] = useState(questions[0]?.id);
+  const [columnQuestionId, setColumnQuestionId] = useState(questions[1]?.id);
+  const [mode, setMode] = useState<CellMode>('count');
+  // A version switch can drop the picked questions; fall back to the defaults.
+  const rowQuestion = questions.find(question => question.id === rowQuestionId) ?? questions[0];
+  const columnQuestion = questions.find(question => question.id === columnQuestionId) ?? questions[1];
+  const crosstabQuery = useCrosstab(surveyId, rowQuestion?.id, columnQuestion?.id, statsArgs);
+  const cells = crosstabQuery.data || [];
+
+  useQueryErrorToast(
+    crosstabQuery.error,
+    "Error loading crosstab",
+    "Failed to load the cross-tabulation. Please try again."
+  );
+
+  if (!rowQuestion || !columnQuestion) {
+    return null;
+  }
+
+  const table = buildCrosstab(rowQuestion, columnQuestion, versions, cells);
+  const test = chiSquareTest(table);
+  const multipleChoice = rowQuestion.type === 'multiple_choice' || columnQuestion.type === 'multiple_choice';
+
+  const cellValue = (i: number, j: number) => {
+    const count = table.counts[i][j];
+    if (mode === 'row') return percent(count, table.rowTotals[i]);
+    if (mode === 'column') return percent(count, table.columnTotals[j]);
+    return count;
+  };
+
+  const formatCell = (value: number) => (mode === 'count' ? String(value) : `${value.toFixed(1)}%`);
+
+  const chartData = table.rows.map((row, i) => ({
+    name: row.label,
+    ...Object.fromEntries(table.columns.map((column, j) => [column.id, cellValue(i, j)]))
+  }));
+
+  const questionSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {questions.map((question) => (
+            <SelectItem key={question.id} value={question.id}>{question.title}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cross-tabulation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          {questionSelect('crosstab-rows', rowQuestion.id, setRowQuestionId, 'Rows')}
+          {questionSelect('crosstab-columns', columnQuestion.id, setColumnQuestionId, 'Columns')}
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as CellMode)}
+          >
+            <ToggleGroupItem value="count">Counts</ToggleGroupItem>
+            <ToggleGroupItem value="row">Row %</ToggleGroupItem>
+            <ToggleGroupItem value="column">Column %</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {table.total === 0 ? (
+          <p className="text-center text-gray-500">No responses answered both questions.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  {table.columns.map((column) => (
+                    <TableHead key={column.id} className="text-right">{column.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.rows.map((row, i) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    {table.columns.map((column, j) => (
+                      <TableCell key={column.id} className="text-right">{formatCell(cellValue(i, j))}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{table.rowTotals[i]}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-medium">Total</TableCell>
+                  {table.columnTotals.map((total, j) => (
+                    <TableCell key={table.columns[j].id} className="text-right font-medium">{total}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">{table.total}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            <ResponsiveContainer width="100%" height={Math.max(300, table.rows.length * 40)}>
+              <BarChart data={chartData} layout="vertical" margin={{ left: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" />
+                <YAxis type="category" dataKey="name" width={160} fontSize={12} />
+                <Tooltip formatter={(value: number) => formatCell(value)} />
+                <Legend />
+                {table.columns.map((column, j) => (
+                  <Bar
+                    key={column.id}
+                    dataKey={column.id}
+                    name={column.label}
+                    stackId="crosstab"
+                    fill={COLORS[j % COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+
+            {test && (
+              <div className="text-sm space-y-1">
+                <p>
+                  <strong>Chi-square:</strong> χ² = {test.statistic.toFixed(2)}, df = {test.degreesOfFreedom},
+                  p = {formatPValue(test.pValue)}, Cramér's V = {test.cramersV.toFixed(2)}.{' '}
+                  {test.pValue < SIGNIFICANCE_LEVEL
+                    ? 'The two questions are associated (significant at the 5% level).'
+                    : 'No significant association at the 5% level.'}
+                </p>
+                {test.lowExpectedCounts && (
+                  <p className="text-amber-700">
+                    More than 20% of cells expect fewer than 5 responses, so the p-value is unreliable.
+                  </p>
+                )}
+                {multipleChoice && (
+                  <p className="text-gray-500">
+                    Multiple choice answers count once per option picked, so respondents can appear in
+                    several cells and the test overstates significance.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CrosstabPanel;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import AnswerChart from './AnswerChart';
+import type { SurveyDefinition } from '@/lib/survey-schema';
+
+export interface DraftFunnelRow {
+  status: string;
+  last_question: string | null;
+  total: number;
+}
+
+interface DraftFunnelProps {
+  definition: SurveyDefinition;
+  rows: DraftFunnelRow[];
+}
+
+const sumWhere = (rows: DraftFunnelRow[], status: string) =>
+  rows.filter(row => row.status === status).reduce((sum, row) => sum + Number(row.total), 0);
+
+/**
+ * Started, completed and abandoned drafts, plus the last question abandoned
+ * drafts had answered, so it's visible where respondents give up.
+ */
+const DraftFunnel = ({ definition, rows }: DraftFunnelProps) => {
+  const completed = sumWhere(rows, 'completed');
+  const abandoned = sumWhere(rows, 'abandoned');
+  const inProgress = sumWhere(rows, 'in_progress');
+  const started = completed + abandoned + inProgress;
+
+  const dropOff = definition.questions
+    .map(question => ({
+      name: question.title,
+      value: sumWhere(rows.filter(row => row.last_question === question.id), 'abandoned')
+    }))
+    .filter(datum => datum.value > 0);
+
+  const stats = [
+    { label: 'Started', value: started },
+    { label: 'Completed', value: completed },
+    { label: 'In progress', value: inProgress },
+    { label: 'Abandoned', value: abandoned },
+    { label: 'Completion rate', value: started ? `${Math.round((completed / started) * 100)}%` : '—' }
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Drafts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 gap-4">
+            {stats.map((stat) => (
+              <div key={stat.label}>
+                <dt className="text-sm text-gray-500">{stat.label}</dt>
+                <dd className="text-2xl font-semibold text-gray-800">{stat.value}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-xs text-gray-500 mt-4">
+            Drafts count as abandoned after an hour without changes.
+          </p>
+        </CardContent>
+      </Card>
+      <AnswerChart title="Last question answered before abandoning" data={dropOff} variant="bar" barColor="#FF8042" />
+    </div>
+  );
+};
+
+export default DraftFunnel;
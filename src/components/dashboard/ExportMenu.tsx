@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import {
+  EXPORT_FORMATS,
+  downloadBlob,
+  exportResponses,
+  type ExportFormat,
+  type MultiSelectLayout
+} from '@/lib/response-export';
+import type { ResponseQuery } from '@/lib/responses';
+import type { LoadedSurvey, SurveyVersion } from '@/lib/surveys';
+import type { SurveyDefinition } from '@/lib/survey-schema';
+
+interface ExportMenuProps {
+  survey: LoadedSurvey;
+  definition: SurveyDefinition;
+  versions: SurveyVersion[];
+  query: ResponseQuery;
+}
+
+/** Downloads every response matching the dashboard's current filters. */
+const ExportMenu = ({ survey, definition, versions, query }: ExportMenuProps) => {
+  const [layout, setLayout] = useState<MultiSelectLayout>('joined');
+  const [exportedRows, setExportedRows] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      setExportedRows(0);
+
+      const blob = await exportResponses({
+        survey,
+        query,
+        definition,
+        versions,
+        format: exportFormat,
+        layout,
+        onProgress: setExportedRows
+      });
+
+      downloadBlob(blob, `${survey.slug}-responses-${format(new Date(), 'yyyy-MM-dd')}.${EXPORT_FORMATS[exportFormat].extension}`);
+    } catch (error) {
+      console.error('Error exporting responses:', error);
+      toast({
+        title: "Export failed",
+        description: "Failed to export survey responses. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setExportedRows(null);
+    }
+  };
+
+  if (exportedRows !== null) {
+    return (
+      <Button variant="outline" disabled>
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Exporting {exportedRows.toLocaleString()} rows…
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Multiple choice in CSV/XLSX</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={layout} onValueChange={(value) => setLayout(value as MultiSelectLayout)}>
+          <DropdownMenuRadioItem value="joined" onSelect={(e) => e.preventDefault()}>
+            One column, joined
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="one_hot" onSelect={(e) => e.preventDefault()}>
+            One column per option
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((exportFormat) => (
+          <DropdownMenuItem key={exportFormat} onSelect={() => handleExport(exportFormat)}>
+            {EXPORT_FORMATS[exportFormat].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useQueryErrorToast } from '@/hooks/use-query-error-toast';
+import { useAnswerTrend, useCrosstab } from '@/hooks/use-responses';
+import { buildCrosstab } from '@/lib/crosstab';
+import {
+  NPS_CATEGORY_COLORS,
+  NPS_CATEGORY_LABELS,
+  summarizeNps,
+  type NpsSummary
+} from '@/lib/nps';
+import type { StatsArgs } from '@/lib/responses';
+import {
+  GRANULARITY_LABELS,
+  browserTimeZone,
+  formatPeriod,
+  type TrendGranularity
+} from '@/lib/trends';
+import type { SurveyVersion } from '@/lib/surveys';
+import { isChoiceQuestion, type SurveyDefinition, type SurveyQuestion } from '@/lib/survey-schema';
+
+interface NpsPanelProps {
+  surveyId: string;
+  question: SurveyQuestion;
+  definition: SurveyDefinition;
+  versions: SurveyVersion[];
+  statsArgs: StatsArgs;
+}
+
+const NO_SEGMENT = '__none__';
+
+const formatScore = (score: number | null) => (score === null ? '—' : score > 0 ? `+${score}` : String(score));
+
+const share = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+// Promoters, passives and detractors as one horizontal bar.
+const CategoryBar = ({ summary }: { summary: NpsSummary }) => (
+  <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100">
+    {([
+      ['detractor', summary.detractors],
+      ['passive', summary.passives],
+      ['promoter', summary.promoters]
+    ] as const).map(([category, count]) => (
+      <div
+        key={category}
+        style={{ width: `${share(count, summary.total)}%`, backgroundColor: NPS_CATEGORY_COLORS[category] }}
+        title={`${NPS_CATEGORY_LABELS[category]}: ${count}`}
+      />
+    ))}
+  </div>
+);
+
+/** Score, promoter/passive/detractor split, score over time and by segment for one NPS question. */
+const NpsPanel = ({ surveyId, question, definition, versions, statsArgs }: NpsPanelProps) => {
+  const [granularity, setGranularity] = useState<TrendGranularity>('week');
+  const segmentQuestions = definition.questions.filter(isChoiceQuestion);
+  const [segmentId, setSegmentId] = useState(NO_SEGMENT);
+
+  const trendQuery = useAnswerTrend(surveyId, question.id, { granularity, timeZone: browserTimeZone() }, statsArgs);
+  const segmentsQuery = useCrosstab(surveyId, segmentId === NO_SEGMENT ? undefined : segmentId, question.id, statsArgs);
+  const trend = trendQuery.data || [];
+  const segmentCells = segmentsQuery.data || [];
+
+  useQueryErrorToast(
+    trendQuery.error || segmentsQuery.error,
+    "Error loading NPS",
+    "Failed to load Net Promoter Score data. Please try again."
+  );
+
+  const summary = summarizeNps(trend);
+
+  const periods = [...new Set(trend.map(row => row.period))].sort();
+  const trendData = periods.map(period => {
+    const periodSummary = summarizeNps(trend.filter(row => row.period === period));
+    return {
+      name: formatPeriod(period, granularity),
+      score: periodSummary.score,
+      responses: periodSummary.total
+    };
+  });
+
+  const segmentQuestion = segmentQuestions.find(q => q.id === segmentId);
+  const segments = segmentQuestion
+    ? (() => {
+        const table = buildCrosstab(segmentQuestion, question, versions, segmentCells);
+        return table.rows.map((row, i) => ({
+          ...row,
+          summary: summarizeNps(table.columns.map((column, j) => ({ answer: column.id, total: table.counts[i][j] })))
+        }));
+      })()
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Net Promoter Score: {question.title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-500">NPS</p>
+            <p className="text-3xl font-semibold">{formatScore(summary.score)}</p>
+            {summary.score !== null && (
+              <p className="text-xs text-gray-500">
+                95% CI {formatScore(summary.low)} to {formatScore(summary.high)} · {summary.total} responses
+              </p>
+            )}
+          </div>
+          {([
+            ['promoter', summary.promoters, '9–10'],
+            ['passive', summary.passives, '7–8'],
+            ['detractor', summary.detractors, '0–6']
+          ] as const).map(([category, count, range]) => (
+            <div key={category}>
+              <p className="text-sm text-gray-500">{NPS_CATEGORY_LABELS[category]} ({range})</p>
+              <p className="text-3xl font-semibold" style={{ color: NPS_CATEGORY_COLORS[category] }}>
+                {share(count, summary.total)}%
+              </p>
+              <p className="text-xs text-gray-500">{count} responses</p>
+            </div>
+          ))}
+        </div>
+        <CategoryBar summary={summary} />
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Score over time</h3>
+            <Select value={granularity} onValueChange={(value) => setGranularity(value as TrendGranularity)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GRANULARITY_LABELS) as TrendGranularity[]).map((key) => (
+                  <SelectItem key={key} value={key}>{GRANULARITY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={trendData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" fontSize={12} />
+              <YAxis domain={[-100, 100]} />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              <Tooltip
+                formatter={(value: number, _name, item) => [
+                  `${formatScore(value)} (${item.payload.responses} responses)`,
+                  'NPS'
+                ]}
+              />
+              <Line type="monotone" dataKey="score" stroke="#6366f1" strokeWidth={2} dot />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <h3 className="font-semibold">By segment</h3>
+            <div className="space-y-2">
+              <Label htmlFor={`nps-segment-${question.id}`}>Break down by</Label>
+              <Select value={segmentId} onValueChange={setSegmentId}>
+                <SelectTrigger id={`nps-segment-${question.id}`} className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SEGMENT}>Choose a question</SelectItem>
+                  {segmentQuestions.map((q) => (
+                    <SelectItem key={q.id} value={q.id}>{q.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {segments.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Segment</TableHead>
+                  <TableHead className="text-right">Responses</TableHead>
+                  <TableHead className="text-right">NPS</TableHead>
+                  <TableHead className="text-right">95% CI</TableHead>
+                  <TableHead className="w-1/3" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {segments.map((segment) => (
+                  <TableRow key={segment.id}>
+                    <TableCell>{segment.label}</TableCell>
+                    <TableCell className="text-right">{segment.summary.total}</TableCell>
+                    <TableCell className="text-right font-medium">{formatScore(segment.summary.score)}</TableCell>
+                    <TableCell className="text-right text-gray-500">
+                      {formatScore(segment.summary.low)} to {formatScore(segment.summary.high)}
+                    </TableCell>
+                    <TableCell><CategoryBar summary={segment.summary} /></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NpsPanel;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { QUALITY_FLAG_LABELS } from '@/lib/submission-protection';
+import { describeQualitySignals, isLowQuality } from '@/lib/response-quality';
+import type { ResponseRow } from '@/lib/response-table';
+import { findVersionQuestion, type SurveyVersion } from '@/lib/surveys';
+import {
+  OTHER_OPTION,
+  formatAnswer,
+  isAnswered,
+  optionLabel,
+  otherAnswerKey,
+  type SurveyAnswers,
+  type SurveyDefinition,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
+
+interface ResponseDetailSheetProps {
+  response: ResponseRow | null;
+  definition: SurveyDefinition;
+  versions: SurveyVersion[];
+  onClose: () => void;
+}
+
+// Multiple choice answers are shown as one badge per option, with any
+// "Other" text on the Other badge itself.
+const AnswerValue = ({ question, answers }: { question: SurveyQuestion; answers: SurveyAnswers }) => {
+  const value = answers[question.id];
+
+  if (!isAnswered(value)) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  if (Array.isArray(value)) {
+    const other = answers[otherAnswerKey(question.id)];
+    return (
+      <div className="flex flex-wrap gap-1">
+        {value.map((id) => (
+          <Badge key={id} variant="secondary">
+            {optionLabel(question, id)}
+            {id === OTHER_OPTION.id && other ? `: ${other}` : ''}
+          </Badge>
+        ))}
+      </div>
+    );
+  }
+
+  if (typeof value === 'object') {
+    return (
+      <dl className="space-y-1">
+        {(question.rows || []).filter(row => value[row.id]).map((row) => (
+          <div key={row.id} className="flex flex-wrap items-center gap-2">
+            <dt>{row.label}</dt>
+            <dd><Badge variant="secondary">{optionLabel(question, value[row.id])}</Badge></dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  return <p className="whitespace-pre-wrap">{formatAnswer(question, answers)}</p>;
+};
+
+/** Every answer of a single response, labelled against the version it was answered in. */
+const ResponseDetailSheet = ({ response, definition, versions, onClose }: ResponseDetailSheetProps) => {
+  const version = versions.find(v => v.id === response?.survey_version_id);
+  const signals = response ? describeQualitySignals(response.quality_signals || {}, definition) : [];
+
+  return (
+    <Sheet open={!!response} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {response && (
+          <>
+            <SheetHeader>
+              <SheetTitle>Response</SheetTitle>
+              <SheetDescription>
+                Submitted {format(new Date(response.submitted_at), 'MMM dd, yyyy HH:mm')}
+                {version && ` · Version ${version.version}`}
+              </SheetDescription>
+            </SheetHeader>
+
+            {(response.quality_score !== null || response.quality_flag || signals.length > 0) && (
+              <div className="mt-4 space-y-2">
+                <div className="flex flex-wrap gap-2">
+                  {response.quality_score !== null && (
+                    <Badge variant={isLowQuality(response.quality_score) ? 'destructive' : 'secondary'}>
+                      Quality {response.quality_score}
+                    </Badge>
+                  )}
+                  {response.quality_flag && (
+                    <Badge variant="destructive">
+                      {QUALITY_FLAG_LABELS[response.quality_flag] ?? response.quality_flag}
+                    </Badge>
+                  )}
+                </div>
+                {signals.map((line) => (
+                  <p key={line} className="text-xs text-muted-foreground">{line}</p>
+                ))}
+              </div>
+            )}
+
+            <Separator className="my-4" />
+
+            <div className="space-y-4 text-sm">
+              {definition.questions.map((question) => (
+                <div key={question.id} className="space-y-1">
+                  <h3 className="font-medium">{question.title}</h3>
+                  <AnswerValue
+                    question={findVersionQuestion(versions, response.survey_version_id, question)}
+                    answers={response.answers}
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ResponseDetailSheet;
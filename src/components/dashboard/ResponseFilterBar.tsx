@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { hasActiveFilters, type ResponseFilters } from '@/lib/response-filters';
+import { isChoiceQuestion, questionOptions, type SurveyDefinition } from '@/lib/survey-schema';
+
+interface ResponseFilterBarProps {
+  definition: SurveyDefinition;
+  filters: ResponseFilters;
+  onChange: (filters: ResponseFilters) => void;
+  // Free-text search is for analysts; viewers only get the other filters.
+  canSearch: boolean;
+}
+
+const ResponseFilterBar = ({ definition, filters, onChange, canSearch }: ResponseFilterBarProps) => {
+  // Search is applied on Enter so every keystroke doesn't refetch the charts.
+  const [search, setSearch] = useState(filters.search || '');
+
+  useEffect(() => {
+    setSearch(filters.search || '');
+  }, [filters.search]);
+
+  const toggleOption = (questionId: string, optionId: string, checked: boolean) => {
+    const current = filters.answers[questionId] || [];
+    onChange({
+      ...filters,
+      answers: {
+        ...filters.answers,
+        [questionId]: checked ? [...current, optionId] : current.filter(id => id !== optionId)
+      }
+    });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ ...filters, search: search.trim() || undefined });
+  };
+
+  const choiceQuestions = definition.questions.filter(isChoiceQuestion);
+
+  return (
+    <Card className="mb-8">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          {canSearch && (
+            <form onSubmit={handleSearch} className="flex-1 space-y-2">
+              <Label htmlFor="response-search">Search free-text answers</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="response-search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  onBlur={handleSearch}
+                  placeholder="Press Enter to search"
+                  className="pl-9"
+                />
+              </div>
+            </form>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="filter-from">From</Label>
+            <Input
+              id="filter-from"
+              type="date"
+              value={filters.from || ''}
+              max={filters.to}
+              onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="filter-to">To</Label>
+            <Input
+              id="filter-to"
+              type="date"
+              value={filters.to || ''}
+              min={filters.from}
+              onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {choiceQuestions.map((question) => {
+            const selected = filters.answers[question.id] || [];
+            return (
+              <Popover key={question.id}>
+                <PopoverTrigger asChild>
+                  <Button variant={selected.length > 0 ? 'secondary' : 'outline'} size="sm" className="max-w-xs">
+                    <span className="truncate">{question.title}</span>
+                    {selected.length > 0 && ` (${selected.length})`}
+                    <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-72 max-h-80 overflow-y-auto space-y-2">
+                  {questionOptions(question).map((option) => (
+                    <div key={option.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`filter-${question.id}-${option.id}`}
+                        checked={selected.includes(option.id)}
+                        onCheckedChange={(checked) => toggleOption(question.id, option.id, checked === true)}
+                      />
+                      <Label htmlFor={`filter-${question.id}-${option.id}`} className="font-normal">
+                        {option.icon && `${option.icon} `}{option.label}
+                      </Label>
+                    </div>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            );
+          })}
+          {hasActiveFilters(filters) && (
+            <Button variant="ghost" size="sm" onClick={() => onChange({ answers: {} })}>
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResponseFilterBar;
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import ResponseDetailSheet from './ResponseDetailSheet';
+import { QUALITY_FLAG_LABELS } from '@/lib/submission-protection';
+import { isLowQuality } from '@/lib/response-quality';
+import {
+  QUALITY_COLUMN,
+  SUBMITTED_COLUMN,
+  defaultHiddenColumns,
+  isSortableQuestion,
+  readHiddenColumns,
+  writeHiddenColumns,
+  type ResponseRow,
+  type ResponseSort
+} from '@/lib/response-table';
+import { findVersionQuestion, type SurveyVersion } from '@/lib/surveys';
+import { formatAnswer, type SurveyDefinition } from '@/lib/survey-schema';
+
+interface ResponseTableProps {
+  surveyId: string;
+  definition: SurveyDefinition;
+  versions: SurveyVersion[];
+  responses: ResponseRow[];
+  sort: ResponseSort;
+  onSortChange: (sort: ResponseSort) => void;
+}
+
+interface Column {
+  id: string;
+  title: string;
+  sortable: boolean;
+  render: (response: ResponseRow) => React.ReactNode;
+}
+
+/**
+ * One row per response and one column per question. Sorting is done by the
+ * caller's query so it applies across pages; clicking a row opens every
+ * answer in a side sheet.
+ */
+const ResponseTable = ({ surveyId, definition, versions, responses, sort, onSortChange }: ResponseTableProps) => {
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [selected, setSelected] = useState<ResponseRow | null>(null);
+
+  // Columns someone chose to hide are kept per survey; otherwise the
+  // defaults follow the definition being shown.
+  useEffect(() => {
+    setHiddenColumns(readHiddenColumns(surveyId) ?? defaultHiddenColumns(definition));
+  }, [surveyId, definition]);
+
+  const columns: Column[] = [
+    {
+      id: SUBMITTED_COLUMN,
+      title: 'Submitted',
+      sortable: true,
+      render: (response) => format(new Date(response.submitted_at), 'MMM dd, yyyy HH:mm')
+    },
+    {
+      id: QUALITY_COLUMN,
+      title: 'Quality',
+      sortable: true,
+      render: (response) => (
+        <div className="flex flex-wrap gap-1">
+          {response.quality_score !== null && (
+            <Badge variant={isLowQuality(response.quality_score) ? 'destructive' : 'secondary'}>
+              {response.quality_score}
+            </Badge>
+          )}
+          {response.quality_flag && (
+            <Badge variant="destructive">
+              {QUALITY_FLAG_LABELS[response.quality_flag] ?? response.quality_flag}
+            </Badge>
+          )}
+        </div>
+      )
+    },
+    ...definition.questions.map((question): Column => ({
+      id: question.id,
+      title: question.title,
+      sortable: isSortableQuestion(question),
+      render: (response) =>
+        formatAnswer(findVersionQuestion(versions, response.survey_version_id, question), response.answers) || '—'
+    }))
+  ];
+
+  const visibleColumns = columns.filter(column => !hiddenColumns.includes(column.id));
+
+  const toggleColumn = (columnId: string, visible: boolean) => {
+    const next = visible ? hiddenColumns.filter(id => id !== columnId) : [...hiddenColumns, columnId];
+    setHiddenColumns(next);
+    writeHiddenColumns(surveyId, next);
+  };
+
+  // First click sorts descending, the next ascending.
+  const toggleSort = (columnId: string) =>
+    onSortChange({
+      column: columnId,
+      ascending: sort.column === columnId ? !sort.ascending : false
+    });
+
+  const sortIcon = (columnId: string) => {
+    if (sort.column !== columnId) return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+    return sort.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <>
+      <div className="flex justify-end mb-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="h-4 w-4 mr-2" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-64 max-h-80 overflow-y-auto">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {columns.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={!hiddenColumns.includes(column.id)}
+                onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span className="truncate">{column.title}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* Table wraps itself in a scroll container; capping its height keeps the header sticky inside it. */}
+      <div className="rounded-md border [&>div]:max-h-[70vh]">
+        <Table>
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-sm">
+            <TableRow>
+              {visibleColumns.map((column) => (
+                <TableHead key={column.id} className="whitespace-nowrap">
+                  {column.sortable ? (
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                      onClick={() => toggleSort(column.id)}
+                    >
+                      <span className="max-w-[16rem] truncate">{column.title}</span>
+                      {sortIcon(column.id)}
+                    </button>
+                  ) : (
+                    <span className="block max-w-[16rem] truncate">{column.title}</span>
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {responses.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={visibleColumns.length} className="text-center text-gray-500">
+                  No responses match this filter.
+                </TableCell>
+              </TableRow>
+            )}
+            {responses.map((response) => (
+              <TableRow key={response.id} className="cursor-pointer" onClick={() => setSelected(response)}>
+                {visibleColumns.map((column) => (
+                  <TableCell key={column.id} className="max-w-[16rem] truncate">
+                    {column.render(response)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <ResponseDetailSheet
+        response={selected}
+        definition={definition}
+        versions={versions}
+        onClose={() => setSelected(null)}
+      />
+    </>
+  );
+};
+
+export default ResponseTable;
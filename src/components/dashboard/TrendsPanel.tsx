@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQueryErrorToast } from '@/hooks/use-query-error-toast';
+import { useAnswerTrend, useResponseTrend } from '@/hooks/use-responses';
+import { COLORS } from '@/lib/chart-colors';
+import type { StatsArgs } from '@/lib/responses';
+import {
+  GRANULARITY_LABELS,
+  ROLLING_WINDOW,
+  browserTimeZone,
+  fillPeriods,
+  formatPeriod,
+  rollingAverage,
+  timeZoneOptions,
+  type TrendGranularity
+} from '@/lib/trends';
+import { answerOptionLabel, type SurveyVersion } from '@/lib/surveys';
+import {
+  isChoiceQuestion,
+  resolveOptionId,
+  type SurveyDefinition
+} from '@/lib/survey-schema';
+
+interface TrendsPanelProps {
+  surveyId: string;
+  definition: SurveyDefinition;
+  versions: SurveyVersion[];
+  statsArgs: StatsArgs;
+}
+
+// Lines beyond this many options are unreadable; the rest stay in the charts above.
+const MAX_SHARE_LINES = 8;
+
+const volumeConfig: ChartConfig = {
+  responses: { label: 'Responses', color: COLORS[0] },
+  average: { label: 'Rolling average', color: COLORS[3] }
+};
+
+/** Responses per period with a rolling average, and how each option's share of answers moves over time. */
+const TrendsPanel = ({ surveyId, definition, versions, statsArgs }: TrendsPanelProps) => {
+  const shareQuestions = definition.questions.filter(isChoiceQuestion);
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+  const [questionId, setQuestionId] = useState(shareQuestions[0]?.id);
+  const timeZones = useMemo(timeZoneOptions, []);
+
+  const period = { granularity, timeZone };
+  const volumeQuery = useResponseTrend(surveyId, period, statsArgs);
+  const answeredQuery = useResponseTrend(surveyId, period, statsArgs, questionId, !!questionId);
+  const answersQuery = useAnswerTrend(surveyId, questionId, period, statsArgs);
+  const volume = volumeQuery.data || [];
+  const answered = answeredQuery.data || [];
+  const answers = answersQuery.data || [];
+
+  useQueryErrorToast(
+    volumeQuery.error || answeredQuery.error || answersQuery.error,
+    "Error loading trends",
+    "Failed to load response trends. Please try again."
+  );
+
+  const windowSize = ROLLING_WINDOW[granularity];
+  const volumeTotals = new Map(volume.map(row => [row.period, Number(row.total)]));
+  const volumePeriods = fillPeriods([...volumeTotals.keys()], granularity);
+  const averages = rollingAverage(volumePeriods.map(period => volumeTotals.get(period) || 0), windowSize);
+  const volumeData = volumePeriods.map((period, i) => ({
+    name: formatPeriod(period, granularity),
+    responses: volumeTotals.get(period) || 0,
+    average: Math.round(averages[i] * 10) / 10
+  }));
+
+  // Share of the responses that answered the question in each period, with
+  // old option ids counted under the options that replace them.
+  const question = shareQuestions.find(q => q.id === questionId);
+  const answeredTotals = new Map(answered.map(row => [row.period, Number(row.total)]));
+  const optionTotals = new Map<string, number>();
+  const periodCounts = new Map<string, Map<string, number>>();
+  if (question) {
+    answers.forEach(row => {
+      const id = resolveOptionId(question, row.answer);
+      const counts = periodCounts.get(row.period) ?? new Map<string, number>();
+      counts.set(id, (counts.get(id) || 0) + Number(row.total));
+      periodCounts.set(row.period, counts);
+      optionTotals.set(id, (optionTotals.get(id) || 0) + Number(row.total));
+    });
+  }
+
+  const shareOptions = question
+    ? [...optionTotals.keys()]
+      .sort((a, b) => optionTotals.get(b) - optionTotals.get(a))
+      .slice(0, MAX_SHARE_LINES)
+    : [];
+  const shareConfig: ChartConfig = Object.fromEntries(
+    shareOptions.map((id, i) => [id, { label: answerOptionLabel(versions, question, id), color: COLORS[i % COLORS.length] }])
+  );
+  const shareData = fillPeriods([...answeredTotals.keys()], granularity).map(period => {
+    const total = answeredTotals.get(period) || 0;
+    const counts = periodCounts.get(period);
+    return {
+      name: formatPeriod(period, granularity),
+      ...Object.fromEntries(shareOptions.map(id => [
+        id,
+        total > 0 ? Math.round(((counts?.get(id) || 0) / total) * 1000) / 10 : null
+      ]))
+    };
+  });
+  const hiddenOptions = optionTotals.size - shareOptions.length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-end md:justify-between">
+        <CardTitle>Trends</CardTitle>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="trend-granularity">Granularity</Label>
+            <Select value={granularity} onValueChange={(value) => setGranularity(value as TrendGranularity)}>
+              <SelectTrigger id="trend-granularity" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GRANULARITY_LABELS) as TrendGranularity[]).map((key) => (
+                  <SelectItem key={key} value={key}>{GRANULARITY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trend-time-zone">Time zone</Label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger id="trend-time-zone" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map((zone) => (
+                  <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div>
+          <h3 className="font-semibold mb-2">Responses per {granularity}</h3>
+          <ChartContainer
+            config={{ ...volumeConfig, average: { ...volumeConfig.average, label: `${windowSize}-${granularity} average` } }}
+            className="aspect-auto h-[280px] w-full"
+          >
+            <ComposedChart data={volumeData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="responses" fill="var(--color-responses)" radius={[4, 4, 0, 0]} />
+              <Line dataKey="average" type="monotone" stroke="var(--color-average)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+
+        {question && (
+          <div>
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-2">
+              <h3 className="font-semibold">Answer share over time</h3>
+              <Select value={question.id} onValueChange={setQuestionId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {shareQuestions.map((q) => (
+                    <SelectItem key={q.id} value={q.id}>{q.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ChartContainer config={shareConfig} className="aspect-auto h-[320px] w-full">
+              <LineChart data={shareData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis
+                  domain={[0, 100]}
+                  tickFormatter={(value) => `${value}%`}
+                  tickLine={false}
+                  axisLine={false}
+                  width={48}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      indicator="line"
+                      formatter={(value, name) => (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">{shareConfig[name]?.label ?? name}</span>
+                          <span className="font-mono font-medium">{value}%</span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {shareOptions.map((id) => (
+                  <Line
+                    key={id}
+                    dataKey={id}
+                    type="monotone"
+                    stroke={`var(--color-${id})`}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+            <p className="text-xs text-gray-500 mt-2">
+              Percent of responses that answered this question in each {granularity}.
+              {question.type === 'multiple_choice' && ' Respondents can pick several options, so shares can add up to more than 100%.'}
+              {hiddenOptions > 0 && ` Only the ${MAX_SHARE_LINES} most common options are shown.`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrendsPanel;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { CloudOff } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useSubmissionQueue } from '@/hooks/use-submission-queue';
+import { downloadBlob } from '@/lib/response-export';
+import { clearRefused, flushQueue, type QueuedSubmission } from '@/lib/submission-queue';
+
+const responses = (count: number) => `${count} ${count === 1 ? 'response' : 'responses'}`;
+
+// The answers and why they were refused; spam protection details stay out.
+const downloadRefused = (refused: QueuedSubmission[]) => {
+  const entries = refused.map(({ id, queuedAt, error, submission }) => ({
+    submissionId: id,
+    queuedAt,
+    error,
+    surveyId: submission.surveyId,
+    versionId: submission.versionId,
+    answers: submission.answers
+  }));
+  const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `unsent-responses-${format(new Date(), 'yyyy-MM-dd')}.json`);
+};
+
+/**
+ * Shows responses saved in this browser that haven't reached the server yet.
+ * Renders nothing when the queue is empty.
+ */
+const PendingSubmissions = () => {
+  const { pending, refused } = useSubmissionQueue();
+
+  if (pending.length === 0 && refused.length === 0) return null;
+
+  const handleSendNow = () => {
+    flushQueue(true).catch(error => console.error('Error sending queued responses:', error));
+  };
+
+  const handleDiscard = () => {
+    clearRefused(refused.map(entry => entry.id))
+      .catch(error => console.error('Error clearing refused responses:', error));
+  };
+
+  return (
+    <div className="space-y-2" role="status">
+      {pending.length > 0 && (
+        <div className="flex items-center gap-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+          <CloudOff className="h-4 w-4 shrink-0" />
+          <span className="flex-1">
+            {responses(pending.length)} saved on this device, waiting to be sent.
+          </span>
+          <Button type="button" size="sm" variant="outline" onClick={handleSendNow}>
+            Send now
+          </Button>
+        </div>
+      )}
+      {refused.length > 0 && (
+        <div className="flex items-center gap-3 rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-800">
+          <span className="flex-1">
+            {responses(refused.length)} couldn't be sent: {refused[0].error}
+          </span>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" size="sm" variant="outline">
+                Dismiss
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Discard {responses(refused.length)}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The server refused {refused.length === 1 ? 'it' : 'them'}, so {refused.length === 1 ? 'it' : 'they'} won't
+                  be sent. Discarding deletes the answers from this device; download them first to keep a copy.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <Button type="button" variant="outline" onClick={() => downloadRefused(refused)}>
+                  Download answers
+                </Button>
+                <AlertDialogAction
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  onClick={handleDiscard}
+                >
+                  Discard
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingSubmissions;
@@ -0,0 +1,228 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  OTHER_MAX_LENGTH,
+  OTHER_OPTION,
+  answerMaxLength,
+  otherAnswerKey,
+  localizedLabel,
+  questionOptions,
+  ratingScale,
+  type AnswerValue,
+  type SurveyAnswers,
+  type SurveyOption,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
+import { NPS_DEFAULT_LABELS } from '@/lib/nps';
+
+interface QuestionFieldProps {
+  question: SurveyQuestion;
+  answers: SurveyAnswers;
+  error?: string;
+  locale?: string;
+  onChange: (key: string, value: AnswerValue) => void;
+}
+
+const gridColumns: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 sm:grid-cols-2',
+  3: 'grid-cols-1 sm:grid-cols-3'
+};
+
+const OptionText = ({ option, locale }: { option: SurveyOption; locale?: string }) => (
+  <>
+    {option.icon && <span aria-hidden="true">{option.icon} </span>}
+    {localizedLabel(option, locale)}
+  </>
+);
+
+const QuestionField = ({ question, answers, error, locale, onChange }: QuestionFieldProps) => {
+  const value = answers[question.id];
+  const fieldId = `question-${question.id}`;
+  const options = questionOptions(question);
+
+  const otherSelected = Array.isArray(value) ? value.includes(OTHER_OPTION.id) : value === OTHER_OPTION.id;
+  const otherKey = otherAnswerKey(question.id);
+
+  const isTextQuestion = question.type === 'text' || question.type === 'long_text';
+
+  const label = (
+    <Label
+      htmlFor={question.type === 'text' || question.type === 'long_text' ? fieldId : undefined}
+      className={cn(!isTextQuestion && 'text-base font-medium')}
+    >
+      {question.title}
+      {question.required && ' *'}
+      {question.type === 'multiple_choice' && ' (Multiple choice)'}
+    </Label>
+  );
+
+  const toggleOption = (option: string) => {
+    const selected = Array.isArray(value) ? value : [];
+    onChange(
+      question.id,
+      selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option]
+    );
+  };
+
+  const renderInput = () => {
+    switch (question.type) {
+      case 'single_choice':
+        return (
+          <RadioGroup
+            value={typeof value === 'string' ? value : ''}
+            onValueChange={(next) => onChange(question.id, next)}
+          >
+            {options.map((option) => (
+              <div key={option.id} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.id} id={`${fieldId}-${option.id}`} />
+                <Label htmlFor={`${fieldId}-${option.id}`}>
+                  <OptionText option={option} locale={locale} />
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case 'multiple_choice':
+        return (
+          <div className={cn('grid gap-3', gridColumns[question.columns || 1])}>
+            {options.map((option) => (
+              <div key={option.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${fieldId}-${option.id}`}
+                  checked={Array.isArray(value) && value.includes(option.id)}
+                  onCheckedChange={() => toggleOption(option.id)}
+                />
+                <Label htmlFor={`${fieldId}-${option.id}`} className={cn(question.columns > 1 && 'text-sm')}>
+                  <OptionText option={option} locale={locale} />
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+
+      case 'rating':
+      case 'nps': {
+        const { min, max } = ratingScale(question);
+        const points = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+        const defaults = question.type === 'nps' ? NPS_DEFAULT_LABELS : undefined;
+        const minLabel = question.minLabel ?? defaults?.min;
+        const maxLabel = question.maxLabel ?? defaults?.max;
+        return (
+          <div className="space-y-1">
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={question.title}>
+              {points.map((point) => (
+                <Button
+                  key={point}
+                  type="button"
+                  role="radio"
+                  aria-checked={value === point}
+                  variant={value === point ? 'default' : 'outline'}
+                  className="h-10 w-10 p-0"
+                  onClick={() => onChange(question.id, point)}
+                >
+                  {point}
+                </Button>
+              ))}
+            </div>
+            {(minLabel || maxLabel) && (
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{minLabel}</span>
+                <span>{maxLabel}</span>
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case 'matrix': {
+        const selections = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+        const columnTemplate = { gridTemplateColumns: `minmax(8rem, 2fr) repeat(${options.length}, minmax(3.5rem, 1fr))` };
+        return (
+          <div className="overflow-x-auto text-sm">
+            <div className="grid items-end gap-2 pb-1" style={columnTemplate}>
+              <span />
+              {options.map((option) => (
+                <span key={option.id} className="text-center text-muted-foreground">
+                  <OptionText option={option} locale={locale} />
+                </span>
+              ))}
+            </div>
+            {(question.rows || []).map((row) => (
+              <RadioGroup
+                key={row.id}
+                value={selections[row.id] || ''}
+                onValueChange={(next) => onChange(question.id, { ...selections, [row.id]: next })}
+                className="items-center border-t py-2"
+                style={columnTemplate}
+                aria-label={localizedLabel(row, locale)}
+              >
+                <span><OptionText option={row} locale={locale} /></span>
+                {options.map((option) => (
+                  <div key={option.id} className="flex justify-center">
+                    <RadioGroupItem
+                      value={option.id}
+                      aria-label={`${localizedLabel(row, locale)}: ${localizedLabel(option, locale)}`}
+                    />
+                  </div>
+                ))}
+              </RadioGroup>
+            ))}
+          </div>
+        );
+      }
+
+      case 'long_text':
+        return (
+          <Textarea
+            id={fieldId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(question.id, e.target.value)}
+            placeholder={question.placeholder}
+            maxLength={answerMaxLength(question)}
+            rows={4}
+          />
+        );
+
+      default:
+        return (
+          <Input
+            id={fieldId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(question.id, e.target.value)}
+            placeholder={question.placeholder}
+            maxLength={answerMaxLength(question)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className={isTextQuestion ? 'space-y-2' : 'space-y-3'}>
+      {label}
+      {question.helpText && <p className="text-sm text-muted-foreground">{question.helpText}</p>}
+      {renderInput()}
+      {question.allowOther && otherSelected && (
+        <Input
+          placeholder="Please specify..."
+          value={(answers[otherKey] as string) || ''}
+          onChange={(e) => onChange(otherKey, e.target.value)}
+          maxLength={OTHER_MAX_LENGTH}
+          className="mt-2"
+        />
+      )}
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default QuestionField;
@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import QuestionField from './QuestionField';
+import { surveySteps } from '@/lib/survey-rules';
+import type { AnswerValue, SurveyAnswers, SurveyDefinition } from '@/lib/survey-schema';
+
+interface SurveyRendererProps {
+  definition: SurveyDefinition;
+  answers: SurveyAnswers;
+  errors?: Record<string, string>;
+  // BCP 47 tag used to pick option translations, e.g. navigator.language.
+  locale?: string;
+  // Renders only this step (see surveySteps) instead of the whole survey.
+  stepId?: string;
+  onChange: (key: string, value: AnswerValue) => void;
+}
+
+/**
+ * Renders the questions of a survey definition as form fields, grouped under
+ * their section headings. Questions hidden by the definition's rules are left
+ * out and rule-required ones are marked as required.
+ */
+const SurveyRenderer = ({ definition, answers, errors = {}, locale, stepId, onChange }: SurveyRendererProps) => {
+  const steps = useMemo(() => surveySteps(definition, answers), [definition, answers]);
+
+  return (
+    <div className="space-y-6">
+      {steps
+        .filter(step => stepId === undefined || step.id === stepId)
+        .map(step => (
+          <section key={step.id} className="space-y-6">
+            {step.title && (
+              <div className="border-b pb-2">
+                <h2 className="text-lg font-semibold text-gray-800">{step.title}</h2>
+                {step.description && <p className="text-sm text-gray-600">{step.description}</p>}
+              </div>
+            )}
+            {step.questions.map(question => (
+              <QuestionField
+                key={question.id}
+                question={question}
+                answers={answers}
+                error={errors[question.id]}
+                locale={locale}
+                onChange={onChange}
+              />
+            ))}
+          </section>
+        ))}
+    </div>
+  );
+};
+
+export default SurveyRenderer;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { AuthContext, type AppRole, type AuthUser } from '@/hooks/use-auth';
+import { supabase } from '@/integrations/supabase/client';
+import { storage } from '@/lib/storage';
+
+// Higher roles include everything the lower ones can do.
+const ROLE_RANK: Record<AppRole, number> = {
+  viewer: 1,
+  analyst: 2,
+  admin: 3
+};
+
+// Sign-in needs Supabase. With local or REST storage nobody signs in and
+// everyone gets VITE_GUEST_ROLE. Local storage defaults to admin, since its
+// data never leaves the browser; REST defaults to no access, so the
+// dashboard only opens once the API's own access control is in place.
+const usesSupabaseAuth = storage.backend === 'supabase';
+
+const guestRole = (): AppRole | null => {
+  if (usesSupabaseAuth) return null;
+  const configured = import.meta.env.VITE_GUEST_ROLE;
+  if (!configured) return storage.backend === 'local' ? 'admin' : null;
+  if (configured === 'none') return null;
+  if (configured in ROLE_RANK) return configured;
+  console.error(`Unknown VITE_GUEST_ROLE "${configured}", allowing no access`);
+  return null;
+};
+
+const GUEST_ROLE = guestRole();
+const GUEST_USER: AuthUser = { id: 'local', email: 'local@localhost' };
+
+export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>(GUEST_ROLE ? [GUEST_ROLE] : []);
+  const [loading, setLoading] = useState(usesSupabaseAuth);
+
+  useEffect(() => {
+    if (!usesSupabaseAuth) return;
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      if (!nextSession) {
+        setRoles([]);
+        setLoading(false);
+      }
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      if (!data.session) {
+        setLoading(false);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    // Fetched outside onAuthStateChange: awaiting Supabase calls inside that
+    // callback can deadlock the auth client.
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error loading user roles:', error);
+        }
+        setRoles((data || []).map(row => row.role));
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const hasRole = (role: AppRole) =>
+    roles.some(granted => ROLE_RANK[granted] >= ROLE_RANK[role]);
+
+  const signIn = async (email: string, password: string) => {
+    if (!usesSupabaseAuth) return { error: new Error('Signing in needs the Supabase storage backend.') };
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return { error };
+  };
+
+  const signOut = async () => {
+    if (!usesSupabaseAuth) return;
+    await supabase.auth.signOut();
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: usesSupabaseAuth ? session?.user ?? null : GUEST_ROLE ? GUEST_USER : null,
+        roles,
+        loading,
+        hasRole,
+        signIn,
+        signOut
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+// What the app reads about the signed-in user.
+export type AuthUser = Pick<User, 'id' | 'email'>;
+
+interface AuthContextValue {
+  session: Session | null;
+  user: AuthUser | null;
+  roles: AppRole[];
+  loading: boolean;
+  hasRole: (role: AppRole) => boolean;
+  signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  signOut: () => Promise<void>;
+}
+
+// Provided by AuthProvider in src/contexts/AuthContext.tsx.
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
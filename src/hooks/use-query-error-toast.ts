@@ -0,0 +1,13 @@
+import { useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+
+/** Logs a failed query and shows a destructive toast, once per failure. */
+export function useQueryErrorToast(error: unknown, title: string, description: string) {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!error) return;
+    console.error(`${title}:`, error);
+    toast({ title, description, variant: "destructive" });
+  }, [error, title, description, toast]);
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting';
+
+export type InsertedResponse = Tables<'telegram_survey'>;
+
+// Waits before rebuilding a dropped channel, the last one repeating.
+const RETRY_DELAYS = [1000, 2000, 5000, 10000, 30000];
+
+/**
+ * Subscribes to new telegram_survey rows for one survey over Supabase
+ * Realtime. Realtime only delivers rows the user may select, so this is for
+ * analysts and admins. A dropped channel is rebuilt with backoff, and
+ * `onResync` runs once it is back because inserts in the gap were missed.
+ */
+export function useResponseInserts(
+  surveyId: string | undefined,
+  enabled: boolean,
+  onInsert: (row: InsertedResponse) => void,
+  onResync: () => void
+) {
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  const handlers = useRef({ onInsert, onResync });
+  handlers.current = { onInsert, onResync };
+
+  useEffect(() => {
+    if (!surveyId || !enabled) return;
+
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let dropped = false;
+
+    const scheduleRetry = () => {
+      dropped = true;
+      setStatus('reconnecting');
+      clearTimeout(retryTimer);
+      retryTimer = setTimeout(subscribe, RETRY_DELAYS[Math.min(attempt, RETRY_DELAYS.length - 1)]);
+      attempt += 1;
+    };
+
+    const subscribe = () => {
+      clearTimeout(retryTimer);
+
+      // Clear `channel` first so the old channel's CLOSED callback is ignored.
+      const previous = channel;
+      channel = null;
+      if (previous) supabase.removeChannel(previous);
+
+      const current = supabase
+        .channel(`responses:${surveyId}`)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'telegram_survey', filter: `survey_id=eq.${surveyId}` },
+          payload => handlers.current.onInsert(payload.new as InsertedResponse)
+        );
+      channel = current;
+
+      current.subscribe(state => {
+        if (channel !== current) return;
+
+        if (state === 'SUBSCRIBED') {
+          setStatus('live');
+          attempt = 0;
+          if (dropped) {
+            dropped = false;
+            handlers.current.onResync();
+          }
+        } else {
+          console.error('Realtime channel lost:', state);
+          scheduleRetry();
+        }
+      });
+    };
+
+    // Coming back online shouldn't wait out the rest of a long backoff.
+    const handleOnline = () => {
+      if (dropped) {
+        attempt = 0;
+        subscribe();
+      }
+    };
+
+    setStatus('connecting');
+    subscribe();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearTimeout(retryTimer);
+      const previous = channel;
+      channel = null;
+      if (previous) supabase.removeChannel(previous);
+    };
+  }, [surveyId, enabled]);
+
+  return status;
+}
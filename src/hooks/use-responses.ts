@@ -0,0 +1,123 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { ResponsePage, ResponseQuery, StatsArgs } from '@/lib/responses';
+import type { TrendPeriod } from '@/lib/responses-repo';
+import { storage } from '@/lib/storage';
+
+/**
+ * Query keys for everything read about a survey's responses. All of them
+ * start with `responseKeys.survey(id)`, so one invalidation covers a survey;
+ * the narrower prefixes let aggregates refresh without touching the list.
+ */
+export const responseKeys = {
+  survey: (surveyId: string) => ['responses', surveyId] as const,
+  lists: (surveyId: string) => [...responseKeys.survey(surveyId), 'list'] as const,
+  list: (surveyId: string, query: ResponseQuery, page: ResponsePage) =>
+    [...responseKeys.lists(surveyId), query, page] as const,
+  stats: (surveyId: string) => [...responseKeys.survey(surveyId), 'stats'] as const,
+  total: (surveyId: string, args: StatsArgs) => [...responseKeys.stats(surveyId), 'total', args] as const,
+  aggregates: (surveyId: string, args: StatsArgs) => [...responseKeys.stats(surveyId), 'aggregates', args] as const,
+  drafts: (surveyId: string, versionId?: string) => [...responseKeys.stats(surveyId), 'drafts', versionId ?? null] as const,
+  crosstab: (surveyId: string, rowQuestion: string, columnQuestion: string, args: StatsArgs) =>
+    [...responseKeys.stats(surveyId), 'crosstab', rowQuestion, columnQuestion, args] as const,
+  answerTrend: (surveyId: string, question: string, period: TrendPeriod, args: StatsArgs) =>
+    [...responseKeys.stats(surveyId), 'answerTrend', question, period, args] as const,
+  responseTrend: (surveyId: string, period: TrendPeriod, args: StatsArgs, question?: string) =>
+    [...responseKeys.stats(surveyId), 'responseTrend', period, args, question ?? null] as const
+};
+
+/**
+ * One page of the response list. The previous page stays on screen while
+ * the next loads, and the page after this one is prefetched.
+ */
+export function useResponses(surveyId: string | undefined, query: ResponseQuery, page: ResponsePage, enabled = true) {
+  const result = useQuery({
+    queryKey: responseKeys.list(surveyId, query, page),
+    queryFn: () => storage.responses.list(surveyId, query, page),
+    enabled: enabled && !!surveyId,
+    placeholderData: keepPreviousData
+  });
+
+  const hasNextPage = !!result.data && page.page * page.pageSize < result.data.count;
+  const next = { ...page, page: page.page + 1 };
+
+  // Kept loaded by an observer rather than a prefetch in an effect, so it
+  // follows the same keys and invalidations without re-rendering this one.
+  useQuery({
+    queryKey: responseKeys.list(surveyId, query, next),
+    queryFn: () => storage.responses.list(surveyId, query, next),
+    enabled: enabled && !!surveyId && hasNextPage && !result.isPlaceholderData,
+    notifyOnChangeProps: []
+  });
+
+  return result;
+}
+
+/** Number of responses matching the dashboard filters. */
+export function useResponseCount(surveyId: string | undefined, args: StatsArgs) {
+  return useQuery({
+    queryKey: responseKeys.total(surveyId, args),
+    queryFn: () => storage.responses.count(surveyId, args),
+    enabled: !!surveyId,
+    placeholderData: keepPreviousData
+  });
+}
+
+/** Answer counts behind the dashboard charts. */
+export function useAggregates(surveyId: string | undefined, args: StatsArgs) {
+  return useQuery({
+    queryKey: responseKeys.aggregates(surveyId, args),
+    queryFn: () => storage.responses.aggregate(surveyId, args),
+    enabled: !!surveyId,
+    placeholderData: keepPreviousData
+  });
+}
+
+/** Where unfinished drafts stopped, for the draft funnel. */
+export function useDraftFunnel(surveyId: string | undefined, versionId?: string) {
+  return useQuery({
+    queryKey: responseKeys.drafts(surveyId, versionId),
+    queryFn: () => storage.responses.drafts(surveyId, versionId),
+    enabled: !!surveyId
+  });
+}
+
+/** Counts for every pair of answers to two questions. */
+export function useCrosstab(
+  surveyId: string | undefined,
+  rowQuestion: string | undefined,
+  columnQuestion: string | undefined,
+  args: StatsArgs
+) {
+  return useQuery({
+    queryKey: responseKeys.crosstab(surveyId, rowQuestion, columnQuestion, args),
+    queryFn: () => storage.responses.crosstab(surveyId, rowQuestion, columnQuestion, args),
+    enabled: !!surveyId && !!rowQuestion && !!columnQuestion,
+    placeholderData: keepPreviousData
+  });
+}
+
+/** Answers to one question per period. */
+export function useAnswerTrend(surveyId: string | undefined, question: string | undefined, period: TrendPeriod, args: StatsArgs) {
+  return useQuery({
+    queryKey: responseKeys.answerTrend(surveyId, question, period, args),
+    queryFn: () => storage.responses.answerTrend(surveyId, question, period, args),
+    enabled: !!surveyId && !!question,
+    placeholderData: keepPreviousData
+  });
+}
+
+/** Responses per period, or only those that answered `question`. */
+export function useResponseTrend(
+  surveyId: string | undefined,
+  period: TrendPeriod,
+  args: StatsArgs,
+  question?: string,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: responseKeys.responseTrend(surveyId, period, args, question),
+    queryFn: () => storage.responses.responseTrend(surveyId, period, args, question),
+    enabled: enabled && !!surveyId,
+    placeholderData: keepPreviousData
+  });
+}
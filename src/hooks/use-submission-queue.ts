@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { listQueued, subscribeToQueue, type QueuedSubmission } from '@/lib/submission-queue';
+
+/**
+ * What is still queued in this browser, kept up to date as it changes.
+ * Sending is left to startQueueFlusher, which runs on every page.
+ */
+export function useSubmissionQueue() {
+  const [queued, setQueued] = useState<QueuedSubmission[]>([]);
+
+  useEffect(() => {
+    let active = true;
+
+    const refresh = async () => {
+      try {
+        const entries = await listQueued();
+        if (active) setQueued(entries);
+      } catch (error) {
+        console.error('Error reading queued responses:', error);
+      }
+    };
+
+    const unsubscribe = subscribeToQueue(refresh);
+    refresh();
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return {
+    pending: queued.filter(entry => !entry.error),
+    refused: queued.filter(entry => entry.error)
+  };
+}
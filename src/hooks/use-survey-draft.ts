@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { compactAnswers, type SurveyAnswers } from '@/lib/survey-schema';
+import { readLocalDraft, saveServerDraft, writeLocalDraft } from '@/lib/survey-drafts';
+import type { LoadedSurvey } from '@/lib/surveys';
+
+// Server saves wait for a pause in typing; local saves happen on every change.
+const SERVER_SAVE_DELAY = 2000;
+
+/**
+ * Autosaves in-progress answers to localStorage and, after a short pause, to
+ * the survey_drafts table. Nothing is saved until something is answered.
+ */
+export function useSurveyDraft(
+  survey: LoadedSurvey | null,
+  answers: SurveyAnswers,
+  step: number
+) {
+  const [resumeToken, setTokenState] = useState<string | null>(null);
+  // Saves read the token from here, so one scheduled before the first save
+  // returned still updates that draft instead of creating another.
+  const tokenRef = useRef<string | null>(null);
+  // Bumped when the page replaces the token (a restored draft, a submitted
+  // response); saves started before that are dropped.
+  const generationRef = useRef(0);
+  // Server saves run one at a time, in order.
+  const savingRef = useRef<Promise<void>>(Promise.resolve());
+
+  const setResumeToken = useCallback((token: string | null) => {
+    generationRef.current += 1;
+    tokenRef.current = token;
+    setTokenState(token);
+  }, []);
+
+  useEffect(() => {
+    if (!survey?.versionId) return;
+
+    const compacted = compactAnswers(survey.definition, answers);
+    if (Object.keys(compacted).length === 0) return;
+
+    const draft = { versionId: survey.versionId, answers: compacted, step };
+    writeLocalDraft(survey.slug, { ...draft, resumeToken: tokenRef.current });
+
+    const generation = generationRef.current;
+    const timer = setTimeout(() => {
+      savingRef.current = savingRef.current.then(async () => {
+        if (generation !== generationRef.current) return;
+
+        try {
+          const token = await saveServerDraft(survey, { ...draft, resumeToken: tokenRef.current });
+          if (generation !== generationRef.current || token === tokenRef.current) return;
+
+          tokenRef.current = token;
+          setTokenState(token);
+          // Newer answers may have been saved locally in the meantime.
+          const latest = readLocalDraft(survey.slug);
+          if (latest) writeLocalDraft(survey.slug, { ...latest, resumeToken: token });
+        } catch (error) {
+          console.error('Error saving draft:', error);
+        }
+      });
+    }, SERVER_SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [survey, answers, step]);
+
+  return { resumeToken, setResumeToken };
+}
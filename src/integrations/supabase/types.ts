@@ -9,42 +9,335 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      response_texts: {
+        Row: {
+          question_id: string
+          response_id: string
+          survey_id: string
+          text_hash: string
+        }
+        Insert: {
+          question_id: string
+          response_id: string
+          survey_id: string
+          text_hash: string
+        }
+        Update: {
+          question_id?: string
+          response_id?: string
+          survey_id?: string
+          text_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "response_texts_response_id_fkey"
+            columns: ["response_id"]
+            isOneToOne: false
+            referencedRelation: "telegram_survey"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "response_texts_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submission_attempts: {
+        Row: {
+          created_at: string
+          device_token: string | null
+          id: number
+          ip_hash: string
+          kind: string
+          survey_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_token?: string | null
+          id?: never
+          ip_hash: string
+          kind?: string
+          survey_id: string
+        }
+        Update: {
+          created_at?: string
+          device_token?: string | null
+          id?: never
+          ip_hash?: string
+          kind?: string
+          survey_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_attempts_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submission_challenges: {
+        Row: {
+          id: string
+          issued_at: string
+          submission_id: string | null
+          survey_id: string
+          used_at: string | null
+        }
+        Insert: {
+          id?: string
+          issued_at?: string
+          submission_id?: string | null
+          survey_id: string
+          used_at?: string | null
+        }
+        Update: {
+          id?: string
+          issued_at?: string
+          submission_id?: string | null
+          survey_id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_challenges_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      survey_drafts: {
+        Row: {
+          answers: Json
+          completed_at: string | null
+          created_at: string
+          id: string
+          last_step: number
+          resume_token: string
+          survey_id: string
+          survey_version_id: string
+          updated_at: string
+        }
+        Insert: {
+          answers?: Json
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_step?: number
+          resume_token?: string
+          survey_id: string
+          survey_version_id: string
+          updated_at?: string
+        }
+        Update: {
+          answers?: Json
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_step?: number
+          resume_token?: string
+          survey_id?: string
+          survey_version_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survey_drafts_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "survey_drafts_survey_version_id_fkey"
+            columns: ["survey_version_id"]
+            isOneToOne: false
+            referencedRelation: "survey_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      survey_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          definition: Json
+          id: string
+          survey_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          definition: Json
+          id?: string
+          survey_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          id?: string
+          survey_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survey_versions_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      surveys: {
+        Row: {
+          created_at: string
+          current_version_id: string | null
+          definition: Json
+          id: string
+          is_active: boolean
+          slug: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_version_id?: string | null
+          definition: Json
+          id?: string
+          is_active?: boolean
+          slug: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_version_id?: string | null
+          definition?: Json
+          id?: string
+          is_active?: boolean
+          slug?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "surveys_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "survey_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       telegram_survey: {
         Row: {
-          age_group: string
-          content_preference: string[]
+          age_group: string | null
+          answers: Json
+          completion_seconds: number | null
+          content_preference: string[] | null
+          device_token: string | null
           id: string
           improvement_suggestions: string | null
           name: string | null
-          recommend_telegram: string
+          quality_flag: string | null
+          quality_score: number | null
+          quality_signals: Json
+          recommend_telegram: string | null
           regular_bots_or_channels: string | null
+          submission_id: string | null
           submitted_at: string
-          usage_duration: string
-          usage_reason: string[]
+          survey_id: string
+          survey_version_id: string
+          usage_duration: string | null
+          usage_reason: string[] | null
         }
         Insert: {
-          age_group: string
-          content_preference: string[]
+          age_group?: string | null
+          answers?: Json
+          completion_seconds?: number | null
+          content_preference?: string[] | null
+          device_token?: string | null
           id?: string
           improvement_suggestions?: string | null
           name?: string | null
-          recommend_telegram: string
+          quality_flag?: string | null
+          quality_score?: number | null
+          quality_signals?: Json
+          recommend_telegram?: string | null
           regular_bots_or_channels?: string | null
+          submission_id?: string | null
           submitted_at?: string
-          usage_duration: string
-          usage_reason: string[]
+          survey_id: string
+          survey_version_id: string
+          usage_duration?: string | null
+          usage_reason?: string[] | null
         }
         Update: {
-          age_group?: string
-          content_preference?: string[]
+          age_group?: string | null
+          answers?: Json
+          completion_seconds?: number | null
+          content_preference?: string[] | null
+          device_token?: string | null
           id?: string
           improvement_suggestions?: string | null
           name?: string | null
-          recommend_telegram?: string
+          quality_flag?: string | null
+          quality_score?: number | null
+          quality_signals?: Json
+          recommend_telegram?: string | null
           regular_bots_or_channels?: string | null
+          submission_id?: string | null
           submitted_at?: string
-          usage_duration?: string
-          usage_reason?: string[]
+          survey_id?: string
+          survey_version_id?: string
+          usage_duration?: string | null
+          usage_reason?: string[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "telegram_survey_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "telegram_survey_survey_version_id_fkey"
+            columns: ["survey_version_id"]
+            isOneToOne: false
+            referencedRelation: "survey_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
         }
         Relationships: []
       }
@@ -53,10 +346,316 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_submission_challenge: {
+        Args: {
+          _challenge_id: string
+          _survey_id: string
+          _submission_id?: string
+        }
+        Returns: string
+      }
+      complete_survey_draft: {
+        Args: {
+          _resume_token: string
+        }
+        Returns: undefined
+      }
+      evaluate_survey_rules: {
+        Args: {
+          _definition: Json
+          _answers: Json
+        }
+        Returns: {
+          hidden: string[]
+          required: string[]
+        }[]
+      }
+      filtered_responses: {
+        Args: {
+          _survey_id: string
+          _filters?: Json
+        }
+        Returns: {
+          age_group: string | null
+          answers: Json
+          completion_seconds: number | null
+          content_preference: string[] | null
+          device_token: string | null
+          id: string
+          improvement_suggestions: string | null
+          name: string | null
+          quality_flag: string | null
+          quality_score: number | null
+          quality_signals: Json
+          recommend_telegram: string | null
+          regular_bots_or_channels: string | null
+          submitted_at: string
+          survey_id: string
+          survey_version_id: string
+          usage_duration: string | null
+          usage_reason: string[] | null
+        }[]
+      }
+      get_answer_counts: {
+        Args: {
+          _survey_id: string
+          _survey_version_id?: string
+          _min_quality?: number
+          _filters?: Json
+        }
+        Returns: {
+          question: string
+          answer: string
+          total: number
+        }[]
+      }
+      get_answer_trend: {
+        Args: {
+          _survey_id: string
+          _question: string
+          _granularity?: string
+          _time_zone?: string
+          _survey_version_id?: string
+          _min_quality?: number
+          _filters?: Json
+        }
+        Returns: {
+          period: string
+          answer: string
+          total: number
+        }[]
+      }
+      get_crosstab: {
+        Args: {
+          _survey_id: string
+          _row_question: string
+          _column_question: string
+          _survey_version_id?: string
+          _min_quality?: number
+          _filters?: Json
+        }
+        Returns: {
+          row_answer: string
+          column_answer: string
+          total: number
+        }[]
+      }
+      get_draft_funnel: {
+        Args: {
+          _survey_id: string
+          _survey_version_id?: string
+        }
+        Returns: {
+          status: string
+          last_question: string
+          total: number
+        }[]
+      }
+      get_response_total: {
+        Args: {
+          _survey_id: string
+          _survey_version_id?: string
+          _min_quality?: number
+          _filters?: Json
+        }
+        Returns: number
+      }
+      get_response_trend: {
+        Args: {
+          _survey_id: string
+          _granularity?: string
+          _time_zone?: string
+          _question?: string
+          _survey_version_id?: string
+          _min_quality?: number
+          _filters?: Json
+        }
+        Returns: {
+          period: string
+          total: number
+        }[]
+      }
+      has_any_role: {
+        Args: {
+          _user_id: string
+          _roles: Database["public"]["Enums"]["app_role"][]
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _user_id: string
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: boolean
+      }
+      issue_submission_challenge: {
+        Args: {
+          _survey_id: string
+        }
+        Returns: {
+          id: string
+          issued_at: string
+        }[]
+      }
+      load_survey_draft: {
+        Args: {
+          _resume_token: string
+        }
+        Returns: {
+          survey_id: string
+          survey_version_id: string
+          answers: Json
+          last_step: number
+        }[]
+      }
+      prevent_survey_version_update: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      register_request: {
+        Args: {
+          _kind: string
+          _survey_id: string
+          _ip_hash: string
+        }
+        Returns: number
+      }
+      register_submission_attempt: {
+        Args: {
+          _survey_id: string
+          _ip_hash: string
+          _device_token: string
+        }
+        Returns: {
+          ip_attempts: number
+          device_responses: number
+        }[]
+      }
+      rescore_responses: {
+        Args: {
+          _survey_id: string
+        }
+        Returns: number
+      }
+      response_answer_values: {
+        Args: {
+          _answers: Json
+          _question: string
+        }
+        Returns: string[]
+      }
+      response_field_errors: {
+        Args: {
+          _definition: Json
+          _answers: Json
+        }
+        Returns: Json
+      }
+      response_matches_filters: {
+        Args: {
+          _answers: Json
+          _submitted_at: string
+          _filters: Json
+        }
+        Returns: boolean
+      }
+      save_survey_draft: {
+        Args: {
+          _survey_id: string
+          _survey_version_id: string
+          _answers: Json
+          _last_step: number
+          _resume_token?: string
+        }
+        Returns: string
+      }
+      save_survey_version: {
+        Args: {
+          _survey_id: string
+          _title: string
+          _definition: Json
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          definition: Json
+          id: string
+          survey_id: string
+          version: number
+        }
+      }
+      score_new_response: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      score_response: {
+        Args: {
+          _response_id: string
+        }
+        Returns: undefined
+      }
+      set_response_survey_version: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      submit_response: {
+        Args: {
+          _survey_id: string
+          _survey_version_id: string
+          _answers: Json
+          _resume_token?: string
+          _quality_flag?: string
+          _device_token?: string
+          _completion_seconds?: number
+          _submission_id?: string
+        }
+        Returns: Json
+      }
+      survey_answer_number: {
+        Args: {
+          _value: Json
+        }
+        Returns: number
+      }
+      survey_answer_present: {
+        Args: {
+          _answer: Json
+        }
+        Returns: boolean
+      }
+      survey_condition_matches: {
+        Args: {
+          _condition: Json
+          _answers: Json
+        }
+        Returns: boolean
+      }
+      survey_max_length: {
+        Args: {
+          _question: Json
+        }
+        Returns: number
+      }
+      survey_normalized_text: {
+        Args: {
+          _text: string
+        }
+        Returns: string
+      }
+      survey_text_is_gibberish: {
+        Args: {
+          _text: string
+        }
+        Returns: boolean
+      }
+      validate_response_rules: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "viewer" | "analyst" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -171,6 +770,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["viewer", "analyst", "admin"],
+    },
   },
 } as const
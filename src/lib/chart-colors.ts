@@ -0,0 +1,2 @@
+// Series colours shared by the dashboard charts, in the order they're used.
+export const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D', '#FFC658', '#FF7C7C', '#8DD1E1', '#D084D0'];
@@ -0,0 +1,346 @@
+import type { ResponseRow } from '@/lib/response-table';
+import { allVersionQuestions, answerOptionLabel, type SurveyVersion } from '@/lib/surveys';
+import {
+  OTHER_MAX_LENGTH,
+  answerMaxLength,
+  otherAnswerKey,
+  questionOptions,
+  ratingScale,
+  resolveOptionId,
+  type SurveyDefinition,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
+
+/**
+ * A labelled dataset: responses as numeric codes plus a codebook saying what
+ * every variable and code means, for SPSS, R (haven/labelled) or pandas.
+ * Codes follow the order options appear in the current definition, so
+ * "Under 18" in the first age_group slot is 1.
+ */
+
+export interface CodebookVariable {
+  // Column name in the data file; a valid SPSS, R and Python identifier.
+  name: string;
+  label: string;
+  type: 'numeric' | 'string';
+  measure: 'nominal' | 'ordinal' | 'scale';
+  // Question the variable comes from, if any.
+  question?: string;
+  // Code → label. Keys are strings so the codebook round-trips through JSON.
+  values?: Record<string, string>;
+  // Longest value in UTF-8 bytes, for string variables.
+  width?: number;
+}
+
+export interface Codebook {
+  survey: string;
+  title: string;
+  generatedAt: string;
+  dataFile: string;
+  variables: CodebookVariable[];
+}
+
+type Cell = string | number | null;
+
+export interface CodedVariable {
+  variable: CodebookVariable;
+  value: (response: ResponseRow) => Cell;
+}
+
+export const LABELLED_DATA_FILE = 'responses.csv';
+
+// SPSS caps variable names at 64 bytes.
+const MAX_NAME_LENGTH = 64;
+// And labels at 256; a little room is left for multi-byte characters.
+const MAX_LABEL_LENGTH = 250;
+
+const SELECTED_VALUES = { '0': 'Not selected', '1': 'Selected' };
+
+const truncate = (text: string, length: number) => (text.length > length ? text.slice(0, length) : text);
+
+// SPSS string widths are UTF-8 bytes, up to 32767. Answer limits count UTF-16
+// code units, and none takes more than 3 bytes in UTF-8.
+const MAX_STRING_WIDTH = 32767;
+const byteWidth = (length: number) => Math.min(length * 3, MAX_STRING_WIDTH);
+
+/**
+ * Codes for every option a question's answers can hold: current options
+ * (and "Other") first, then options only older versions had, so old
+ * responses still get a code. Replaced ids share their replacement's code.
+ */
+export const optionCodes = (question: SurveyQuestion, versions: SurveyVersion[]) => {
+  const codes = new Map<string, number>();
+  questionOptions(question).forEach(option => codes.set(option.id, codes.size + 1));
+
+  versions.forEach(version => {
+    const older = version.definition.questions.find(q => q.id === question.id);
+    (older?.options || []).forEach(option => {
+      const id = resolveOptionId(question, option.id);
+      if (!codes.has(id)) codes.set(id, codes.size + 1);
+    });
+  });
+
+  return codes;
+};
+
+const valueLabels = (question: SurveyQuestion, versions: SurveyVersion[], codes: Map<string, number>) =>
+  Object.fromEntries([...codes].map(([id, code]) => [String(code), answerOptionLabel(versions, question, id)]));
+
+const codeOf = (question: SurveyQuestion, codes: Map<string, number>, id: unknown) =>
+  typeof id === 'string' ? codes.get(resolveOptionId(question, id)) ?? null : null;
+
+const questionVariables = (question: SurveyQuestion, versions: SurveyVersion[]): CodedVariable[] => {
+  const label = truncate(question.title, MAX_LABEL_LENGTH);
+  const variables: CodedVariable[] = [];
+
+  switch (question.type) {
+    case 'single_choice': {
+      const codes = optionCodes(question, versions);
+      variables.push({
+        variable: {
+          name: question.id,
+          label,
+          type: 'numeric',
+          measure: 'nominal',
+          question: question.id,
+          values: valueLabels(question, versions, codes)
+        },
+        value: (response) => codeOf(question, codes, response.answers[question.id])
+      });
+      break;
+    }
+    // One 0/1 variable per option, like an SPSS multiple dichotomy set.
+    case 'multiple_choice': {
+      const codes = optionCodes(question, versions);
+      [...codes].forEach(([id]) => {
+        const optionLabel = answerOptionLabel(versions, question, id);
+        variables.push({
+          variable: {
+            name: `${question.id}_${id}`,
+            label: truncate(`${question.title}: ${optionLabel}`, MAX_LABEL_LENGTH),
+            type: 'numeric',
+            measure: 'nominal',
+            question: question.id,
+            values: SELECTED_VALUES
+          },
+          value: (response) => {
+            const value = response.answers[question.id];
+            if (!Array.isArray(value) || value.length === 0) return null;
+            return value.some(answer => resolveOptionId(question, answer) === id) ? 1 : 0;
+          }
+        });
+      });
+      break;
+    }
+    case 'matrix': {
+      const codes = optionCodes(question, versions);
+      (question.rows || []).forEach(row => {
+        variables.push({
+          variable: {
+            name: `${question.id}_${row.id}`,
+            label: truncate(`${question.title}: ${row.label}`, MAX_LABEL_LENGTH),
+            type: 'numeric',
+            measure: 'ordinal',
+            question: question.id,
+            values: valueLabels(question, versions, codes)
+          },
+          value: (response) => {
+            const value = response.answers[question.id];
+            return value && typeof value === 'object' && !Array.isArray(value)
+              ? codeOf(question, codes, value[row.id])
+              : null;
+          }
+        });
+      });
+      break;
+    }
+    case 'rating':
+    case 'nps': {
+      const { min, max } = ratingScale(question);
+      const values: Record<string, string> = {};
+      if (question.minLabel) values[String(min)] = question.minLabel;
+      if (question.maxLabel) values[String(max)] = question.maxLabel;
+      variables.push({
+        variable: {
+          name: question.id,
+          label,
+          type: 'numeric',
+          measure: question.type === 'nps' ? 'scale' : 'ordinal',
+          question: question.id,
+          values: Object.keys(values).length > 0 ? values : undefined
+        },
+        value: (response) => {
+          const value = response.answers[question.id];
+          return typeof value === 'number' ? value : null;
+        }
+      });
+      break;
+    }
+    default:
+      variables.push({
+        variable: {
+          name: question.id,
+          label,
+          type: 'string',
+          measure: 'nominal',
+          question: question.id,
+          width: byteWidth(answerMaxLength(question))
+        },
+        value: (response) => {
+          const value = response.answers[question.id];
+          return typeof value === 'string' && value ? value : null;
+        }
+      });
+  }
+
+  if (question.allowOther) {
+    variables.push({
+      variable: {
+        name: `${question.id}_other_text`,
+        label: truncate(`${question.title}: Other (please specify)`, MAX_LABEL_LENGTH),
+        type: 'string',
+        measure: 'nominal',
+        question: question.id,
+        width: byteWidth(OTHER_MAX_LENGTH)
+      },
+      value: (response) => (response.answers[otherAnswerKey(question.id)] as string) || null
+    });
+  }
+
+  return variables;
+};
+
+/** Every variable in the labelled dataset, in column order; see exportColumns. */
+export const codedVariables = (definition: SurveyDefinition, versions: SurveyVersion[]): CodedVariable[] => {
+  const variables: CodedVariable[] = [
+    {
+      variable: { name: 'response_id', label: 'Response ID', type: 'string', measure: 'nominal', width: 36 },
+      value: (response) => response.id
+    },
+    {
+      variable: { name: 'submitted_at', label: 'Submitted at (UTC)', type: 'string', measure: 'nominal', width: 32 },
+      value: (response) => response.submitted_at
+    },
+    {
+      variable: { name: 'survey_version', label: 'Survey version', type: 'numeric', measure: 'ordinal' },
+      value: (response) => versions.find(version => version.id === response.survey_version_id)?.version ?? null
+    },
+    {
+      variable: { name: 'quality_score', label: 'Quality score (0-100)', type: 'numeric', measure: 'scale' },
+      value: (response) => response.quality_score
+    },
+    {
+      variable: { name: 'quality_flag', label: 'Quality flag', type: 'string', measure: 'nominal', width: 32 },
+      value: (response) => response.quality_flag
+    },
+    ...allVersionQuestions(definition, versions).flatMap(question => questionVariables(question, versions))
+  ];
+
+  // Long option ids can collide once names are cut to length.
+  const used = new Set<string>();
+  return variables.map(coded => {
+    let name = truncate(coded.variable.name, MAX_NAME_LENGTH);
+    for (let n = 2; used.has(name); n++) {
+      name = `${truncate(coded.variable.name, MAX_NAME_LENGTH - String(n).length - 1)}_${n}`;
+    }
+    used.add(name);
+    return { ...coded, variable: { ...coded.variable, name } };
+  });
+};
+
+export const buildCodebook = (
+  survey: { slug: string; title: string },
+  variables: CodedVariable[]
+): Codebook => ({
+  survey: survey.slug,
+  title: survey.title,
+  generatedAt: new Date().toISOString(),
+  dataFile: LABELLED_DATA_FILE,
+  variables: variables.map(coded => coded.variable)
+});
+
+// SPSS reads syntax lines of at most 256 bytes. Longer strings are split
+// into pieces joined with `+`, and lists of names wrap onto new lines.
+const MAX_LINE_BYTES = 80;
+const MAX_STRING_PIECE_BYTES = 60;
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+const spssString = (text: string, indent = '    ') => {
+  const pieces: string[] = [];
+  let piece = '';
+  let pieceBytes = 0;
+
+  for (const char of text) {
+    const escaped = char === "'" ? "''" : char;
+    const bytes = utf8Length(escaped);
+    if (piece && pieceBytes + bytes > MAX_STRING_PIECE_BYTES) {
+      pieces.push(piece);
+      piece = '';
+      pieceBytes = 0;
+    }
+    piece += escaped;
+    pieceBytes += bytes;
+  }
+  pieces.push(piece);
+
+  return pieces.map(piece => `'${piece}'`).join(`\n${indent}+ `);
+};
+
+const wrapWords = (words: string[], indent: string) =>
+  words.reduce<string[]>((lines, word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && utf8Length(`${last} ${word}`) <= MAX_LINE_BYTES) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(`${indent}${word}`);
+    }
+    return lines;
+  }, []);
+
+const MEASURE_LEVELS = { nominal: 'NOMINAL', ordinal: 'ORDINAL', scale: 'SCALE' };
+
+/** SPSS syntax that reads the data file and applies the codebook's labels. */
+export const spssSyntax = (codebook: Codebook) => {
+  const { variables } = codebook;
+  const labelled = variables.filter(variable => variable.values);
+
+  return [
+    `* ${codebook.title}, exported ${codebook.generatedAt}.`,
+    `* Run from the folder containing ${codebook.dataFile}, or change /FILE below.`,
+    'GET DATA',
+    '  /TYPE=TXT',
+    `  /FILE=${spssString(codebook.dataFile)}`,
+    "  /ENCODING='UTF8'",
+    '  /ARRANGEMENT=DELIMITED',
+    "  /DELIMITERS=','",
+    `  /QUALIFIER='"'`,
+    '  /FIRSTCASE=2',
+    '  /VARIABLES=',
+    ...variables.map(variable => `    ${variable.name} ${variable.type === 'string' ? `A${variable.width ?? 255}` : 'F8.0'}`),
+    '.',
+    'VARIABLE LABELS',
+    '  ' + variables.map(variable => `${variable.name} ${spssString(variable.label)}`).join('\n  /'),
+    '.',
+    ...(labelled.length > 0
+      ? [
+          'VALUE LABELS',
+          '  ' + labelled
+            .map(variable =>
+              `${variable.name}\n`
+              + Object.entries(variable.values || {})
+                .map(([code, label]) => `    ${code} ${spssString(label, '      ')}`)
+                .join('\n')
+            )
+            .join('\n  /'),
+          '.'
+        ]
+      : []),
+    ...(['nominal', 'ordinal', 'scale'] as const).flatMap(measure => {
+      const names = variables.filter(variable => variable.measure === measure).map(variable => variable.name);
+      return names.length > 0 ? ['VARIABLE LEVEL', ...wrapWords([...names, `(${MEASURE_LEVELS[measure]}).`], '  ')] : [];
+    }),
+    'EXECUTE.',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,179 @@
+import { answerOptionLabel, type SurveyVersion } from '@/lib/surveys';
+import {
+  isChoiceQuestion,
+  questionOptions,
+  resolveOptionId,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
+
+/** One cell as returned by the get_crosstab RPC. */
+export interface CrosstabCount {
+  row_answer: string;
+  column_answer: string;
+  total: number;
+}
+
+export interface CrosstabCategory {
+  id: string;
+  label: string;
+}
+
+export interface Crosstab {
+  rows: CrosstabCategory[];
+  columns: CrosstabCategory[];
+  // counts[row][column]
+  counts: number[][];
+  rowTotals: number[];
+  columnTotals: number[];
+  total: number;
+}
+
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  // Effect size from 0 (independent) to 1.
+  cramersV: number;
+  // More than 20% of cells expect fewer than 5 responses, so the
+  // approximation behind the p-value is unreliable.
+  lowExpectedCounts: boolean;
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export const isCrosstabQuestion = (question: SurveyQuestion) =>
+  isChoiceQuestion(question) || question.type === 'rating' || question.type === 'nps';
+
+// Choice questions keep the survey's option order; scales sort numerically.
+// Answers the current definition doesn't know go last.
+const orderCategories = (question: SurveyQuestion, ids: Set<string>) => {
+  if (!isChoiceQuestion(question)) {
+    return [...ids].sort((a, b) => Number(a) - Number(b));
+  }
+  const known = questionOptions(question).map(option => option.id).filter(id => ids.has(id));
+  return [...known, ...[...ids].filter(id => !known.includes(id)).sort()];
+};
+
+const categoryLabel = (question: SurveyQuestion, versions: SurveyVersion[], id: string) =>
+  isChoiceQuestion(question) ? answerOptionLabel(versions, question, id) : id;
+
+/**
+ * Lays the RPC's cells out as a table. Option ids from older versions are
+ * folded into the options that replace them, and categories nobody picked
+ * are left out.
+ */
+export const buildCrosstab = (
+  rowQuestion: SurveyQuestion,
+  columnQuestion: SurveyQuestion,
+  versions: SurveyVersion[],
+  cells: CrosstabCount[]
+): Crosstab => {
+  const resolved = cells.map(cell => ({
+    row: isChoiceQuestion(rowQuestion) ? resolveOptionId(rowQuestion, cell.row_answer) : cell.row_answer,
+    column: isChoiceQuestion(columnQuestion) ? resolveOptionId(columnQuestion, cell.column_answer) : cell.column_answer,
+    total: Number(cell.total)
+  }));
+
+  const rowIds = orderCategories(rowQuestion, new Set(resolved.map(cell => cell.row)));
+  const columnIds = orderCategories(columnQuestion, new Set(resolved.map(cell => cell.column)));
+
+  const counts = rowIds.map(() => columnIds.map(() => 0));
+  resolved.forEach(cell => {
+    counts[rowIds.indexOf(cell.row)][columnIds.indexOf(cell.column)] += cell.total;
+  });
+
+  const rowTotals = counts.map(row => row.reduce((sum, count) => sum + count, 0));
+  const columnTotals = columnIds.map((_, j) => counts.reduce((sum, row) => sum + row[j], 0));
+
+  return {
+    rows: rowIds.map(id => ({ id, label: categoryLabel(rowQuestion, versions, id) })),
+    columns: columnIds.map(id => ({ id, label: categoryLabel(columnQuestion, versions, id) })),
+    counts,
+    rowTotals,
+    columnTotals,
+    total: rowTotals.reduce((sum, count) => sum + count, 0)
+  };
+};
+
+// Lanczos approximation of ln Γ(x).
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((c, i) => {
+    sum += c / (z + i + 1);
+  });
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+/** Upper regularized incomplete gamma function Q(a, x). */
+const upperGamma = (a: number, x: number) => {
+  if (x <= 0) return 1;
+  const prefix = Math.exp(-x + a * Math.log(x) - logGamma(a));
+
+  // Series for P(a, x) converges quickly below a + 1...
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-14; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - sum * prefix;
+  }
+
+  // ...and a continued fraction for Q(a, x) above it (modified Lentz).
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return h * prefix;
+};
+
+/**
+ * Pearson's chi-square test of independence. Returns null when the table has
+ * a single row or column, where there's nothing to test.
+ */
+export const chiSquareTest = (table: Crosstab): ChiSquareResult | null => {
+  const { rows, columns, counts, rowTotals, columnTotals, total } = table;
+  if (rows.length < 2 || columns.length < 2 || total === 0) return null;
+
+  let statistic = 0;
+  let lowCells = 0;
+  counts.forEach((row, i) => {
+    row.forEach((observed, j) => {
+      const expected = (rowTotals[i] * columnTotals[j]) / total;
+      if (expected < 5) lowCells++;
+      statistic += (observed - expected) ** 2 / expected;
+    });
+  });
+
+  const degreesOfFreedom = (rows.length - 1) * (columns.length - 1);
+
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: upperGamma(degreesOfFreedom / 2, statistic / 2),
+    cramersV: Math.sqrt(statistic / (total * (Math.min(rows.length, columns.length) - 1))),
+    lowExpectedCounts: lowCells / (rows.length * columns.length) > 0.2
+  };
+};
@@ -0,0 +1,99 @@
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { SurveyDefinition } from '@/lib/survey-schema';
+import { latestFunctionDefinitions } from '@/test/migrations';
+
+// The dashboard stats functions are security definer, so they have to keep
+// viewers away from anything the dashboard doesn't chart themselves.
+
+const SURVEY_ID = '00000000-0000-0000-0000-000000000001';
+const VIEWER_ID = '00000000-0000-0000-0000-0000000000aa';
+
+const definition: Pick<SurveyDefinition, 'title' | 'questions'> = {
+  title: 'Stats',
+  questions: [
+    { id: 'uses', type: 'single_choice', title: 'Uses', required: true, options: [{ id: 'yes', label: 'Yes' }, { id: 'no', label: 'No' }] },
+    { id: 'score', type: 'rating', title: 'Score', required: true, scaleMax: 5 },
+    { id: 'name', type: 'text', title: 'Name', required: false }
+  ] as SurveyDefinition['questions']
+};
+
+const STATS_FUNCTIONS = ['has_any_role', 'response_answer_values', 'response_matches_filters', 'is_chart_question', 'get_crosstab', 'get_answer_trend', 'get_response_trend'];
+
+// Just enough of the Supabase schema for the functions to run.
+const SCHEMA = `
+  create schema auth;
+  create function auth.uid() returns uuid language sql stable
+    as $$ select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $$;
+  create type public.app_role as enum ('viewer', 'analyst', 'admin');
+  create table public.user_roles (user_id uuid not null, role public.app_role not null);
+  create table public.survey_versions (id uuid primary key, survey_id uuid not null, definition jsonb not null);
+  create table public.telegram_survey (
+    id serial primary key,
+    survey_id uuid not null,
+    survey_version_id uuid,
+    answers jsonb not null,
+    submitted_at timestamptz not null default now(),
+    quality_score integer
+  );
+`;
+
+describe('dashboard stats functions', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(SCHEMA);
+    for (const sql of latestFunctionDefinitions(STATS_FUNCTIONS)) {
+      await db.exec(sql);
+    }
+    await db.query('insert into public.user_roles values ($1, $2)', [VIEWER_ID, 'viewer']);
+    await db.query('insert into public.survey_versions values (gen_random_uuid(), $1, $2::jsonb)', [SURVEY_ID, JSON.stringify(definition)]);
+    await db.query('insert into public.telegram_survey (survey_id, answers) values ($1, $2::jsonb)', [
+      SURVEY_ID,
+      JSON.stringify({ uses: 'yes', score: 4, name: 'Alice' })
+    ]);
+    await db.query(`select set_config('request.jwt.claim.sub', $1, false)`, [VIEWER_ID]);
+  });
+
+  afterAll(() => db.close());
+
+  it('cross-tabulates chart questions for a viewer', async () => {
+    const { rows } = await db.query('select * from public.get_crosstab($1, $2, $3)', [SURVEY_ID, 'uses', 'score']);
+    expect(rows).toEqual([{ row_answer: 'yes', column_answer: '4', total: 1 }]);
+  });
+
+  it('refuses to cross-tabulate a text question', async () => {
+    await expect(db.query('select * from public.get_crosstab($1, $2, $3)', [SURVEY_ID, 'uses', 'name'])).rejects.toThrow(
+      'only chart questions'
+    );
+  });
+
+  it('refuses answer trends for a text question', async () => {
+    await expect(db.query('select * from public.get_answer_trend($1, $2)', [SURVEY_ID, 'name'])).rejects.toThrow(
+      'only chart questions'
+    );
+    await expect(
+      db.query('select * from public.get_response_trend($1, _question => $2)', [SURVEY_ID, 'name'])
+    ).rejects.toThrow('only chart questions');
+  });
+
+  it('ignores free-text search for a viewer', async () => {
+    const search = { search: 'alice', search_keys: ['name'] };
+    const { rows } = await db.query('select * from public.get_crosstab($1, $2, $3, _filters => $4::jsonb)', [
+      SURVEY_ID,
+      'uses',
+      'score',
+      JSON.stringify(search)
+    ]);
+    expect(rows).toEqual([]);
+  });
+
+  it('returns answer trends for a chart question', async () => {
+    const { rows } = await db.query<{ answer: string; total: number }>(
+      'select answer, total from public.get_answer_trend($1, $2)',
+      [SURVEY_ID, 'uses']
+    );
+    expect(rows).toEqual([{ answer: 'yes', total: 1 }]);
+  });
+});
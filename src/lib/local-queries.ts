@@ -0,0 +1,301 @@
+import { format, parseISO, startOfWeek } from 'date-fns';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { CrosstabCount } from '@/lib/crosstab';
+import type { TrendPeriod } from '@/lib/responses-repo';
+import {
+  ALL_RESPONSES,
+  CLEAN_RESPONSES,
+  FLAGGED_RESPONSES,
+  type AnswerCount,
+  type DraftCount,
+  type ResponseQuery,
+  type StatsArgs
+} from '@/lib/responses';
+import { QUALITY_COLUMN, SUBMITTED_COLUMN, type ResponseRow, type ResponseSort } from '@/lib/response-table';
+import { evaluateRules, type RuleState } from '@/lib/survey-rules';
+import {
+  OTHER_MAX_LENGTH,
+  OTHER_OPTION,
+  answerMaxLength,
+  isAnswered,
+  otherAnswerKey,
+  questionOptions,
+  ratingScale,
+  type AnswerValue,
+  type SurveyAnswers,
+  type SurveyDefinition,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
+import type { AnswerTrendRow, ResponseTrendRow } from '@/lib/trends';
+import type { SurveyVersion } from '@/lib/surveys';
+
+// In-memory versions of the dashboard RPCs for the local storage backend.
+// Each mirrors the SQL function it is named after, so results match what
+// the same responses would give on Supabase.
+
+// Seeded responses have no submission_id.
+export type LocalResponse = ResponseRow
+  & Pick<Tables<'telegram_survey'>, 'survey_id'>
+  & Partial<Pick<Tables<'telegram_survey'>, 'submission_id'>>;
+
+export type LocalDraft = Pick<
+  Tables<'survey_drafts'>,
+  'resume_token' | 'survey_id' | 'survey_version_id' | 'last_step' | 'updated_at' | 'completed_at'
+> & { answers: SurveyAnswers };
+
+// The `_filters` argument as toRpcFilters builds it.
+interface RpcFilters {
+  answers?: Record<string, string[]>;
+  from?: string | null;
+  to?: string | null;
+  search?: string | null;
+  search_keys?: string[] | null;
+}
+
+const CHART_QUESTION_TYPES = ['single_choice', 'multiple_choice', 'rating', 'nps'];
+
+// Drafts untouched for this long count as abandoned, as in get_draft_funnel.
+const ABANDONED_AFTER_MS = 60 * 60 * 1000;
+
+/** response_answer_values: an answer as text, one entry per picked option. */
+export const answerValues = (value: AnswerValue | undefined): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' || typeof value === 'number') return [String(value)];
+  return [];
+};
+
+const answerText = (value: AnswerValue | undefined) =>
+  value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/** response_matches_filters. */
+export const matchesFilters = (response: LocalResponse, filters: Json | undefined) => {
+  if (!filters) return true;
+  const { answers = {}, from, to, search, search_keys } = filters as RpcFilters;
+  const submittedAt = new Date(response.submitted_at).getTime();
+
+  if (from && submittedAt < new Date(from).getTime()) return false;
+  if (to && submittedAt >= new Date(to).getTime()) return false;
+
+  const answersMatch = Object.entries(answers).every(([questionId, ids]) => {
+    if (ids.length === 0) return true;
+    const value = response.answers[questionId];
+    // Like `?|`, only string answers and string elements of arrays match.
+    if (typeof value === 'string') return ids.includes(value);
+    if (Array.isArray(value)) return value.some(id => ids.includes(id));
+    return false;
+  });
+  if (!answersMatch) return false;
+
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return (search_keys || []).some(key => answerText(response.answers[key]).toLowerCase().includes(needle));
+};
+
+/** The WHERE clause shared by the aggregate RPCs. */
+export const matchesStats = (response: LocalResponse, args: StatsArgs) =>
+  (!args._survey_version_id || response.survey_version_id === args._survey_version_id)
+  && (args._min_quality === undefined || (response.quality_score ?? 100) >= args._min_quality)
+  && matchesFilters(response, args._filters);
+
+/** filtered_responses plus the filters the Supabase repository adds to it. */
+export const matchesQuery = (response: LocalResponse, query: ResponseQuery) => {
+  if (query.versionId && response.survey_version_id !== query.versionId) return false;
+
+  if (query.flag === CLEAN_RESPONSES) {
+    if (response.quality_flag !== null) return false;
+  } else if (query.flag === FLAGGED_RESPONSES) {
+    if (response.quality_flag === null) return false;
+  } else if (query.flag && query.flag !== ALL_RESPONSES && response.quality_flag !== query.flag) {
+    return false;
+  }
+
+  if (query.minQuality !== undefined && response.quality_score !== null && response.quality_score < query.minQuality) {
+    return false;
+  }
+
+  return matchesFilters(response, query.filters);
+};
+
+const sortValue = (response: LocalResponse, column: string): string | number | null => {
+  if (column === SUBMITTED_COLUMN) return response.submitted_at;
+  if (column === QUALITY_COLUMN) return response.quality_score;
+  const value = response.answers[column];
+  return typeof value === 'string' || typeof value === 'number' ? value : null;
+};
+
+// jsonb ordering: strings sort before numbers, and nulls go last either way.
+const compareValues = (a: string | number | null, b: string | number | null, ascending: boolean) => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const order = typeof a === typeof b ? (a < b ? -1 : 1) : typeof a === 'string' ? -1 : 1;
+  return ascending ? order : -order;
+};
+
+/** Orders responses like the list query: by the sort column, then newest first. */
+export const sortResponses = (responses: LocalResponse[], sort: ResponseSort) =>
+  [...responses].sort((a, b) =>
+    compareValues(sortValue(a, sort.column), sortValue(b, sort.column), sort.ascending)
+    || compareValues(a.submitted_at, b.submitted_at, false)
+  );
+
+// GROUP BY over tuples of values, with count(*).
+const tally = (keys: (string | null)[][]) => {
+  const totals = new Map<string, number>();
+  keys.forEach(key => {
+    const id = JSON.stringify(key);
+    totals.set(id, (totals.get(id) || 0) + 1);
+  });
+  return [...totals].map(([id, total]) => ({ key: JSON.parse(id) as (string | null)[], total }));
+};
+
+/** get_answer_counts: counts per answer for every chart question in the given versions. */
+export const countAnswers = (responses: LocalResponse[], versions: SurveyVersion[], versionId?: string): AnswerCount[] => {
+  const questionIds = [...new Set(
+    versions
+      .filter(version => !versionId || version.id === versionId)
+      .flatMap(version => version.definition.questions)
+      .filter(question => CHART_QUESTION_TYPES.includes(question.type))
+      .map(question => question.id)
+  )];
+
+  return tally(responses.flatMap(response =>
+    questionIds.flatMap(questionId =>
+      answerValues(response.answers[questionId]).map(answer => [questionId, answer])
+    )
+  )).map(({ key: [question, answer], total }) => ({ question, answer, total }));
+};
+
+/** get_crosstab. */
+export const crosstabCounts = (responses: LocalResponse[], rowQuestion: string, columnQuestion: string): CrosstabCount[] =>
+  tally(responses.flatMap(response =>
+    answerValues(response.answers[rowQuestion]).flatMap(row =>
+      answerValues(response.answers[columnQuestion]).map(column => [row, column])
+    )
+  )).map(({ key: [row_answer, column_answer], total }) => ({ row_answer, column_answer, total }));
+
+/** date_trunc of a timestamp's calendar day in the period's time zone. */
+export const periodStart = (timestamp: string, { granularity, timeZone }: TrendPeriod) => {
+  // en-CA formats dates as yyyy-MM-dd.
+  const day = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(timestamp));
+  if (granularity === 'month') return `${day.slice(0, 7)}-01`;
+  if (granularity === 'week') return format(startOfWeek(parseISO(day), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  return day;
+};
+
+/** get_answer_trend. */
+export const answerTrend = (responses: LocalResponse[], question: string, period: TrendPeriod): AnswerTrendRow[] =>
+  tally(responses.flatMap(response =>
+    answerValues(response.answers[question]).map(answer => [periodStart(response.submitted_at, period), answer])
+  )).map(({ key: [start, answer], total }) => ({ period: start, answer, total }));
+
+/** get_response_trend. */
+export const responseTrend = (responses: LocalResponse[], period: TrendPeriod, question?: string): ResponseTrendRow[] =>
+  tally(responses
+    .filter(response => !question || answerValues(response.answers[question]).length > 0)
+    .map(response => [periodStart(response.submitted_at, period)])
+  ).map(({ key: [start], total }) => ({ period: start, total }));
+
+/** get_draft_funnel: drafts by status and the last question they answered. */
+export const draftFunnel = (drafts: LocalDraft[], versions: SurveyVersion[], now = Date.now()): DraftCount[] =>
+  tally(drafts.map(draft => {
+    const status = draft.completed_at
+      ? 'completed'
+      : now - new Date(draft.updated_at).getTime() > ABANDONED_AFTER_MS ? 'abandoned' : 'in_progress';
+    const questions = versions.find(version => version.id === draft.survey_version_id)?.definition.questions || [];
+    const lastQuestion = [...questions].reverse().find(question => isAnswered(draft.answers[question.id]));
+    return [status, lastQuestion?.id ?? null];
+  })).map(({ key: [status, last_question], total }) => ({ status, last_question, total }));
+
+// char_length counts code points, not UTF-16 code units.
+const charLength = (text: string) => [...text].length;
+
+const answerError = (question: SurveyQuestion, value: AnswerValue | undefined, required: boolean) => {
+  const optionIds = questionOptions(question).map(option => option.id);
+  const isOption = (id: unknown) => typeof id === 'string' && optionIds.includes(id);
+
+  if (!isAnswered(value)) {
+    if (!required) return null;
+    return question.type === 'multiple_choice' ? 'Please select at least one option.' : 'This question is required.';
+  }
+
+  switch (question.type) {
+    case 'text':
+    case 'long_text':
+      if (typeof value !== 'string') return 'Please enter text.';
+      return charLength(value) > answerMaxLength(question)
+        ? `Please keep this under ${answerMaxLength(question)} characters.`
+        : null;
+    case 'single_choice':
+      return isOption(value) ? null : 'Please choose one of the listed options.';
+    case 'multiple_choice':
+      if (!Array.isArray(value) || !value.every(isOption)) return 'Please choose from the listed options.';
+      return new Set(value).size !== value.length ? 'Each option can only be selected once.' : null;
+    case 'rating':
+    case 'nps': {
+      const { min, max } = ratingScale(question);
+      return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+        ? null
+        : `Please pick a value from ${min} to ${max}.`;
+    }
+    case 'matrix': {
+      const rowIds = (question.rows || []).map(row => row.id);
+      if (
+        typeof value !== 'object' || Array.isArray(value)
+        || Object.entries(value).some(([row, option]) => !rowIds.includes(row) || !isOption(option))
+      ) {
+        return 'Please choose from the listed options.';
+      }
+      return required && rowIds.some(row => !(row in value)) ? 'Please answer every row.' : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const questionError = (question: SurveyQuestion, answers: SurveyAnswers, { hidden, required }: RuleState) => {
+  const value = answers[question.id];
+  const otherText = answers[otherAnswerKey(question.id)];
+
+  if (hidden.has(question.id)) {
+    return isAnswered(value) || otherText !== undefined ? "This question doesn't apply to your other answers." : null;
+  }
+
+  const message = answerError(question, value, question.required || required.has(question.id));
+  if (message || otherText === undefined) return message;
+
+  const otherSelected = Array.isArray(value) ? value.includes(OTHER_OPTION.id) : value === OTHER_OPTION.id;
+  if (!otherSelected) return 'Please select "Other" to describe another answer.';
+  return typeof otherText !== 'string' || charLength(otherText) > OTHER_MAX_LENGTH
+    ? `Please keep your "Other" answer under ${OTHER_MAX_LENGTH} characters.`
+    : null;
+};
+
+/**
+ * response_field_errors: a message per question id for answers submit_response
+ * would refuse. It covers the rules too, so nothing validate_response_rules
+ * rejects gets through.
+ */
+export const responseFieldErrors = (definition: SurveyDefinition, answers: SurveyAnswers) => {
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+    return { _form: 'Answers must be an object keyed by question id.' };
+  }
+
+  const errors: Record<string, string> = {};
+
+  Object.keys(answers).forEach(key => {
+    const known = definition.questions.some(question =>
+      key === question.id || (question.allowOther && key === otherAnswerKey(question.id))
+    );
+    if (!known) errors[key.split(':')[0]] = 'This question is not part of the survey.';
+  });
+
+  const rules = evaluateRules(definition, answers);
+  definition.questions.forEach(question => {
+    const message = questionError(question, answers, rules);
+    if (message) errors[question.id] = message;
+  });
+
+  return errors;
+};
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { isTransientError } from '@/lib/network';
+
+describe('isTransientError', () => {
+  let onLine = true;
+
+  beforeEach(() => {
+    onLine = true;
+    vi.stubGlobal('navigator', { get onLine() { return onLine; } });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('retries requests that never got a reply', () => {
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError({ message: 'TypeError: Load failed', details: '', hint: '', code: '' })).toBe(true);
+    expect(isTransientError(Object.assign(new Error('Failed to send a request'), { name: 'FunctionsFetchError' }))).toBe(true);
+  });
+
+  it('retries server errors, timeouts and rate limits', () => {
+    expect(isTransientError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe(true);
+    expect(isTransientError({ context: { status: 429 } })).toBe(true);
+    expect(isTransientError(Object.assign(new Error('Timeout'), { status: 408 }))).toBe(true);
+  });
+
+  it('does not retry refusals, database errors or bugs', () => {
+    expect(isTransientError(Object.assign(new Error('Forbidden'), { status: 403 }))).toBe(false);
+    expect(isTransientError({ message: 'permission denied', code: '42501' })).toBe(false);
+    expect(isTransientError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe(false);
+    expect(isTransientError(z.string().safeParse(1).error)).toBe(false);
+  });
+
+  it('retries anything while the browser is offline', () => {
+    onLine = false;
+    expect(isTransientError(new Error('Anything'))).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+// What fetch rejects with when a request never gets a reply: "Failed to
+// fetch" (Chrome), "NetworkError when attempting to fetch resource."
+// (Firefox), "Load failed" (Safari).
+const NETWORK_FAILURE = /failed to fetch|networkerror|load failed|network error/i;
+
+/**
+ * Whether a failed request is worth trying again later: the browser is
+ * offline, the request never got a reply, or the server was down or busy.
+ * Database errors, refusals and bugs would fail the same way again.
+ */
+export const isTransientError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+
+  // HTTP errors carry a status, directly (the REST backend) or on the
+  // Response in `context` (Supabase edge functions).
+  const { name, message, status, context, code } = (error || {}) as {
+    name?: string;
+    message?: string;
+    status?: number;
+    context?: { status?: number };
+    code?: string;
+  };
+  const httpStatus = status ?? context?.status;
+  if (httpStatus !== undefined) return httpStatus >= 500 || httpStatus === 408 || httpStatus === 429;
+
+  // Edge function calls wrap the failed fetch; PostgREST passes it on as
+  // "TypeError: Failed to fetch" with an empty code, and the REST backend
+  // rethrows fetch's own TypeError.
+  if (name === 'FunctionsFetchError') return true;
+  return !code && typeof message === 'string' && NETWORK_FAILURE.test(message);
+};
@@ -0,0 +1,74 @@
+/**
+ * Net Promoter Score: the share of promoters (9–10) minus the share of
+ * detractors (0–6), from -100 to 100. Passives (7–8) only count towards
+ * the total.
+ */
+
+export type NpsCategory = 'promoter' | 'passive' | 'detractor';
+
+export const NPS_CATEGORY_LABELS: Record<NpsCategory, string> = {
+  promoter: 'Promoters',
+  passive: 'Passives',
+  detractor: 'Detractors'
+};
+
+export const NPS_CATEGORY_COLORS: Record<NpsCategory, string> = {
+  promoter: '#22c55e',
+  passive: '#facc15',
+  detractor: '#ef4444'
+};
+
+// Shown under NPS questions that don't set their own end labels.
+export const NPS_DEFAULT_LABELS = { min: 'Not at all likely', max: 'Extremely likely' };
+
+export const npsCategory = (score: number): NpsCategory => {
+  if (score >= 9) return 'promoter';
+  if (score >= 7) return 'passive';
+  return 'detractor';
+};
+
+export interface NpsSummary {
+  promoters: number;
+  passives: number;
+  detractors: number;
+  total: number;
+  // null when nobody answered.
+  score: number | null;
+  // 95% confidence interval of the score.
+  low: number | null;
+  high: number | null;
+}
+
+const Z_95 = 1.96;
+
+/** Summarises answer counts keyed by the score given ("0".."10"). */
+export const summarizeNps = (counts: { answer: string; total: number }[]): NpsSummary => {
+  const tally = { promoter: 0, passive: 0, detractor: 0 };
+  counts.forEach(({ answer, total }) => {
+    const score = Number(answer);
+    if (Number.isFinite(score)) tally[npsCategory(score)] += Number(total);
+  });
+
+  const total = tally.promoter + tally.passive + tally.detractor;
+  if (total === 0) {
+    return { promoters: 0, passives: 0, detractors: 0, total, score: null, low: null, high: null };
+  }
+
+  // Each response scores +1, 0 or -1; the NPS is their mean, so its standard
+  // error follows from the variance of that three-valued variable.
+  const promoterShare = tally.promoter / total;
+  const detractorShare = tally.detractor / total;
+  const mean = promoterShare - detractorShare;
+  const variance = promoterShare + detractorShare - mean ** 2;
+  const margin = Z_95 * Math.sqrt(variance / total);
+
+  return {
+    promoters: tally.promoter,
+    passives: tally.passive,
+    detractors: tally.detractor,
+    total,
+    score: Math.round(mean * 100),
+    low: Math.max(-100, Math.round((mean - margin) * 100)),
+    high: Math.min(100, Math.round((mean + margin) * 100))
+  };
+};
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { ResponseRow } from '@/lib/response-table';
+import type { SurveyVersion } from '@/lib/surveys';
+import type { SurveyDefinition } from '@/lib/survey-schema';
+
+type ExportModule = typeof import('@/lib/response-export');
+type CodebookModule = typeof import('@/lib/codebook');
+
+const question = (id: string, title: string) =>
+  ({ id, type: 'text', title, required: false }) as SurveyDefinition['questions'][number];
+
+const version = (id: string, number: number, questions: SurveyDefinition['questions']): SurveyVersion => ({
+  id,
+  version: number,
+  createdAt: '2025-06-01T00:00:00Z',
+  definition: { title: 'Export', questions } as SurveyDefinition
+});
+
+// Newest first, as the storage backends return them.
+const versions = [
+  version('v2', 2, [question('name', 'Name')]),
+  version('v1', 1, [question('name', 'Your name'), question('bots', 'Favourite bots')])
+];
+
+const response = {
+  id: 'r1',
+  submitted_at: '2025-06-02T00:00:00Z',
+  survey_version_id: 'v1',
+  quality_score: 100,
+  quality_flag: null,
+  answers: { name: 'Alice', bots: 'weather' }
+} as unknown as ResponseRow;
+
+let exportColumns: ExportModule['exportColumns'];
+let codedVariables: CodebookModule['codedVariables'];
+
+beforeAll(async () => {
+  // These modules pull in the Supabase client, which wants localStorage.
+  globalThis.localStorage ??= { getItem: () => null, setItem: () => {}, removeItem: () => {} } as unknown as Storage;
+  ({ exportColumns } = await import('@/lib/response-export'));
+  ({ codedVariables } = await import('@/lib/codebook'));
+});
+
+describe('exportColumns', () => {
+  it('keeps answers to questions removed in later versions', () => {
+    const columns = exportColumns(versions[0].definition, versions, 'joined');
+    expect(columns.map(column => column.header).slice(-2)).toEqual(['Name', 'Favourite bots']);
+    expect(columns.slice(-2).map(column => column.value(response))).toEqual(['Alice', 'weather']);
+  });
+});
+
+describe('codedVariables', () => {
+  it('keeps answers to questions removed in later versions', () => {
+    const variables = codedVariables(versions[0].definition, versions);
+    expect(variables.map(coded => coded.variable.name).slice(-2)).toEqual(['name', 'bots']);
+    expect(variables.slice(-2).map(coded => coded.value(response))).toEqual(['Alice', 'weather']);
+  });
+});
@@ -0,0 +1,333 @@
+import {
+  LABELLED_DATA_FILE,
+  buildCodebook,
+  codedVariables,
+  spssSyntax,
+  type CodedVariable
+} from '@/lib/codebook';
+import type { ResponseQuery } from '@/lib/responses';
+import { storage } from '@/lib/storage';
+import type { ResponseRow } from '@/lib/response-table';
+import { allVersionQuestions, answerOptionLabel, type SurveySummary, type SurveyVersion } from '@/lib/surveys';
+import {
+  isAnswered,
+  otherAnswerKey,
+  questionOptions,
+  resolveOptionId,
+  type SurveyDefinition,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
+import { createZipWriter } from '@/lib/zip';
+
+// `labelled` is a zip of numeric-coded CSV, JSON codebook and SPSS syntax.
+export type ExportFormat = 'csv' | 'xlsx' | 'labelled';
+
+// Multiple choice answers as one "a; b" column, or one 0/1 column per option.
+export type MultiSelectLayout = 'joined' | 'one_hot';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  xlsx: {
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  },
+  labelled: { label: 'SPSS / R / pandas (coded + codebook)', extension: 'zip', mimeType: 'application/zip' }
+};
+
+type Cell = string | number | null;
+
+interface ExportColumn {
+  header: string;
+  value: (response: ResponseRow) => Cell;
+}
+
+const ids = (value: unknown) => (Array.isArray(value) ? value : typeof value === 'string' ? [value] : []);
+
+const questionColumns = (
+  question: SurveyQuestion,
+  versions: SurveyVersion[],
+  layout: MultiSelectLayout
+): ExportColumn[] => {
+  // Old option ids are folded into the current options that replace them.
+  const labels = (response: ResponseRow) =>
+    ids(response.answers[question.id]).map(id =>
+      answerOptionLabel(versions, question, resolveOptionId(question, id))
+    );
+
+  const columns: ExportColumn[] = [];
+
+  if (question.type === 'multiple_choice' && layout === 'one_hot') {
+    questionOptions(question).forEach(option => {
+      columns.push({
+        header: `${question.title}: ${option.label}`,
+        value: (response) => {
+          const value = response.answers[question.id];
+          if (!isAnswered(value)) return null;
+          return ids(value).some(id => resolveOptionId(question, id) === option.id) ? 1 : 0;
+        }
+      });
+    });
+  } else if (question.type === 'multiple_choice' || question.type === 'single_choice') {
+    columns.push({
+      header: question.title,
+      value: (response) => labels(response).join('; ') || null
+    });
+  } else if (question.type === 'matrix') {
+    (question.rows || []).forEach(row => {
+      columns.push({
+        header: `${question.title}: ${row.label}`,
+        value: (response) => {
+          const value = response.answers[question.id];
+          const choice = value && typeof value === 'object' && !Array.isArray(value) ? value[row.id] : undefined;
+          return choice ? answerOptionLabel(versions, question, resolveOptionId(question, choice)) : null;
+        }
+      });
+    });
+  } else {
+    columns.push({
+      header: question.title,
+      value: (response) => {
+        const value = response.answers[question.id];
+        return typeof value === 'string' || typeof value === 'number' ? value : null;
+      }
+    });
+  }
+
+  if (question.allowOther) {
+    columns.push({
+      header: `${question.title}: Other (please specify)`,
+      value: (response) => (response.answers[otherAnswerKey(question.id)] as string) || null
+    });
+  }
+
+  return columns;
+};
+
+/**
+ * One column per question (or per option/row), after a few response-level
+ * columns. Questions removed in later versions come after the current ones.
+ */
+export const exportColumns = (
+  definition: SurveyDefinition,
+  versions: SurveyVersion[],
+  layout: MultiSelectLayout
+): ExportColumn[] => [
+  { header: 'Response ID', value: (response) => response.id },
+  { header: 'Submitted at', value: (response) => response.submitted_at },
+  {
+    header: 'Survey version',
+    value: (response) => versions.find(version => version.id === response.survey_version_id)?.version ?? null
+  },
+  { header: 'Quality score', value: (response) => response.quality_score },
+  { header: 'Quality flag', value: (response) => response.quality_flag },
+  ...allVersionQuestions(definition, versions).flatMap(question => questionColumns(question, versions, layout))
+];
+
+interface ExportColumns {
+  headers: string[];
+  values: (response: ResponseRow) => Cell[];
+}
+
+interface TableWriter {
+  writeRow: (cells: Cell[]) => void;
+  // Moves buffered rows out of the JS heap; called after every batch.
+  flush: () => void;
+  finish: () => Blob;
+}
+
+// Spreadsheet apps run cells starting with these as formulas, so free text
+// from respondents is prefixed with a quote to keep it inert. The labelled
+// dataset is meant for statistics packages and keeps text as answered.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (cell: Cell, guardFormulas: boolean) => {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+  const text = guardFormulas && FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Buffers rows and hands each batch to `write` as one chunk.
+const csvRows = (write: (text: string) => void, guardFormulas: boolean) => {
+  let pending: string[] = [];
+
+  return {
+    writeRow: (cells: Cell[]) => {
+      pending.push(cells.map(cell => csvCell(cell, guardFormulas)).join(',') + '\r\n');
+    },
+    flush: () => {
+      write(pending.join(''));
+      pending = [];
+    }
+  };
+};
+
+const createCsvWriter = (): TableWriter => {
+  // The byte order mark makes Excel read the file as UTF-8.
+  const parts: BlobPart[] = ['\uFEFF'];
+  const rows = csvRows(text => parts.push(new Blob([text])), true);
+
+  return {
+    ...rows,
+    finish: () => new Blob(parts, { type: EXPORT_FORMATS.csv.mimeType })
+  };
+};
+
+const createLabelledWriter = (survey: SurveySummary, variables: CodedVariable[]): TableWriter => {
+  const zip = createZipWriter();
+  const rows = csvRows(zip.addFile(LABELLED_DATA_FILE), false);
+
+  return {
+    ...rows,
+    finish: () => {
+      const codebook = buildCodebook(survey, variables);
+      zip.addFile('codebook.json')(JSON.stringify(codebook, null, 2));
+      zip.addFile(`${survey.slug}.sps`)(spssSyntax(codebook));
+      return zip.toBlob(EXPORT_FORMATS.labelled.mimeType);
+    }
+  };
+};
+
+// Characters XML 1.0 can't represent at all are dropped.
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\uFFFE\uFFFF]/g;
+
+const xmlText = (text: string) =>
+  text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const xlsxCell = (cell: Cell) => {
+  if (cell === null) return '<c/>';
+  if (typeof cell === 'number') return `<c><v>${cell}</v></c>`;
+  return `<c t="inlineStr"><is><t xml:space="preserve">${xmlText(cell)}</t></is></c>`;
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// The smallest package Excel, Numbers and LibreOffice all open: one sheet of
+// inline strings, no shared strings table or styles.
+const XLSX_PACKAGE: Record<string, string> = {
+  '[Content_Types].xml':
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '</Types>',
+  '_rels/.rels':
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">`
+    + `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>`
+    + '</Relationships>',
+  'xl/workbook.xml':
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIP}">`
+    + '<sheets><sheet name="Responses" sheetId="1" r:id="rId1"/></sheets>'
+    + '</workbook>',
+  'xl/_rels/workbook.xml.rels':
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">`
+    + `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>`
+    + '</Relationships>'
+};
+
+const createXlsxWriter = (): TableWriter => {
+  const zip = createZipWriter();
+  Object.entries(XLSX_PACKAGE).forEach(([name, xml]) => zip.addFile(name)(XML_DECLARATION + xml));
+
+  const writeSheet = zip.addFile('xl/worksheets/sheet1.xml');
+  // The header row stays frozen while scrolling.
+  writeSheet(
+    XML_DECLARATION
+    + `<worksheet xmlns="${SPREADSHEET_NS}">`
+    + '<sheetViews><sheetView workbookViewId="0">'
+    + '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+    + '</sheetView></sheetViews>'
+    + '<sheetData>'
+  );
+
+  let pending: string[] = [];
+
+  return {
+    writeRow: (cells) => {
+      pending.push(`<row>${cells.map(xlsxCell).join('')}</row>`);
+    },
+    flush: () => {
+      writeSheet(pending.join(''));
+      pending = [];
+    },
+    finish: () => {
+      writeSheet('</sheetData></worksheet>');
+      return zip.toBlob(EXPORT_FORMATS.xlsx.mimeType);
+    }
+  };
+};
+
+interface ExportOptions {
+  survey: SurveySummary;
+  query: ResponseQuery;
+  definition: SurveyDefinition;
+  versions: SurveyVersion[];
+  format: ExportFormat;
+  layout: MultiSelectLayout;
+  onProgress?: (rows: number) => void;
+}
+
+const tableFor = (
+  options: ExportOptions
+): { columns: ExportColumns; writer: TableWriter } => {
+  const { survey, definition, versions, format, layout } = options;
+
+  if (format === 'labelled') {
+    const variables = codedVariables(definition, versions);
+    return {
+      columns: {
+        headers: variables.map(coded => coded.variable.name),
+        values: (response) => variables.map(coded => coded.value(response))
+      },
+      writer: createLabelledWriter(survey, variables)
+    };
+  }
+
+  const columns = exportColumns(definition, versions, layout);
+  return {
+    columns: {
+      headers: columns.map(column => column.header),
+      values: (response) => columns.map(column => column.value(response))
+    },
+    writer: format === 'csv' ? createCsvWriter() : createXlsxWriter()
+  };
+};
+
+/** Writes every response matching `query`, oldest first, into a file of the given format. */
+export const exportResponses = async (options: ExportOptions): Promise<Blob> => {
+  const { survey, query, onProgress } = options;
+  const { columns, writer } = tableFor(options);
+
+  writer.writeRow(columns.headers);
+
+  let written = 0;
+  for await (const rows of storage.responses.export(survey.id, query)) {
+    rows.forEach(row => writer.writeRow(columns.values(row)));
+    writer.flush();
+    written += rows.length;
+    onProgress?.(written);
+  }
+
+  return writer.finish();
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseFilters, toRpcFilters } from '@/lib/response-filters';
+import type { SurveyDefinition } from '@/lib/survey-schema';
+
+const definition = { title: 'Filters', questions: [] } as SurveyDefinition;
+
+describe('parseFilters', () => {
+  it('reads answers, dates and search from the query string', () => {
+    const filters = parseFilters(new URLSearchParams('a.uses=yes,no&from=2025-06-01&to=2025-06-30&search=bots'));
+    expect(filters).toEqual({ answers: { uses: ['yes', 'no'] }, from: '2025-06-01', to: '2025-06-30', search: 'bots' });
+  });
+
+  it('drops dates that do not parse', () => {
+    const filters = parseFilters(new URLSearchParams('from=yesterday&to=2025-13-45'));
+    expect(filters.from).toBeUndefined();
+    expect(filters.to).toBeUndefined();
+    expect(() => toRpcFilters(filters, definition)).not.toThrow();
+  });
+});
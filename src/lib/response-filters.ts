@@ -0,0 +1,94 @@
+import { addDays, isValid, parseISO } from 'date-fns';
+import type { Json } from '@/integrations/supabase/types';
+import { isChoiceQuestion, otherAnswerKey, type SurveyDefinition } from '@/lib/survey-schema';
+
+/**
+ * Dashboard filters. They live in the URL query string so a filtered view
+ * can be bookmarked or shared:
+ *   ?a.age_group=age_18_24,age_25_34&from=2025-06-01&to=2025-06-30&search=bots
+ */
+export interface ResponseFilters {
+  // Question id → option ids; a response matches if it picked any of them.
+  answers: Record<string, string[]>;
+  // Inclusive calendar days (yyyy-MM-dd) in the viewer's timezone.
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+const ANSWER_PARAM_PREFIX = 'a.';
+
+export const EMPTY_FILTERS: ResponseFilters = { answers: {} };
+
+// A hand-edited ?from= or ?to= that isn't a date is dropped rather than
+// reaching toRpcFilters, where it would throw.
+const dateParam = (value: string | null) => (value && isValid(parseISO(value)) ? value : undefined);
+
+export const parseFilters = (params: URLSearchParams): ResponseFilters => {
+  const answers: Record<string, string[]> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(ANSWER_PARAM_PREFIX) && value) {
+      answers[key.slice(ANSWER_PARAM_PREFIX.length)] = value.split(',');
+    }
+  });
+
+  return {
+    answers,
+    from: dateParam(params.get('from')),
+    to: dateParam(params.get('to')),
+    search: params.get('search') || undefined
+  };
+};
+
+/** Writes filters into a copy of `params`, keeping unrelated parameters. */
+export const applyFiltersToParams = (params: URLSearchParams, filters: ResponseFilters) => {
+  const next = new URLSearchParams(params);
+  [...next.keys()]
+    .filter(key => key.startsWith(ANSWER_PARAM_PREFIX) || ['from', 'to', 'search'].includes(key))
+    .forEach(key => next.delete(key));
+
+  Object.entries(filters.answers).forEach(([questionId, optionIds]) => {
+    if (optionIds.length > 0) next.set(`${ANSWER_PARAM_PREFIX}${questionId}`, optionIds.join(','));
+  });
+  if (filters.from) next.set('from', filters.from);
+  if (filters.to) next.set('to', filters.to);
+  if (filters.search) next.set('search', filters.search);
+
+  return next;
+};
+
+export const hasActiveFilters = (filters: ResponseFilters) =>
+  Object.values(filters.answers).some(ids => ids.length > 0) || !!filters.from || !!filters.to || !!filters.search;
+
+/** Questions whose answers can be searched as free text, including "Other" text. */
+export const searchableAnswerKeys = (definition: SurveyDefinition) =>
+  definition.questions.flatMap(question => {
+    if (question.type === 'text' || question.type === 'long_text') return [question.id];
+    if (isChoiceQuestion(question) && question.allowOther) return [otherAnswerKey(question.id)];
+    return [];
+  });
+
+/**
+ * The `_filters` argument of the dashboard RPCs. Option ids are expanded with
+ * the ids they replaced in earlier versions, and days become a half-open
+ * range of timestamps in the viewer's timezone.
+ */
+export const toRpcFilters = (filters: ResponseFilters, definition: SurveyDefinition): Json => {
+  const answers = Object.fromEntries(
+    Object.entries(filters.answers)
+      .filter(([, ids]) => ids.length > 0)
+      .map(([questionId, ids]) => {
+        const options = definition.questions.find(question => question.id === questionId)?.options || [];
+        const replaced = options.filter(option => ids.includes(option.id)).flatMap(option => option.replaces || []);
+        return [questionId, [...ids, ...replaced]];
+      })
+  );
+
+  return {
+    answers,
+    from: filters.from ? parseISO(filters.from).toISOString() : null,
+    to: filters.to ? addDays(parseISO(filters.to), 1).toISOString() : null,
+    search: filters.search || null,
+    search_keys: filters.search ? searchableAnswerKeys(definition) : null
+  };
+};
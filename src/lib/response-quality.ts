@@ -0,0 +1,35 @@
+import type { SurveyDefinition } from '@/lib/survey-schema';
+
+// Responses scoring below this are left out when the dashboard excludes
+// low-quality responses. Matches the threshold in the response_quality
+// migration; a quality_flag costs 60 points, so flagged responses always
+// fall below it.
+export const LOW_QUALITY_SCORE = 50;
+
+/** What score_response found, as stored in telegram_survey.quality_signals. */
+export interface QualitySignals {
+  speeder?: boolean;
+  straight_lining?: string[];
+  gibberish?: string[];
+  duplicate_text?: string[];
+}
+
+const SIGNAL_LABELS: Record<Exclude<keyof QualitySignals, 'speeder'>, string> = {
+  straight_lining: 'Every option ticked',
+  gibberish: 'Gibberish text',
+  duplicate_text: 'Duplicate text'
+};
+
+export const isLowQuality = (score: number | null) => score !== null && score < LOW_QUALITY_SCORE;
+
+/** One line per signal, naming the questions it was found in. */
+export const describeQualitySignals = (signals: QualitySignals, definition?: SurveyDefinition) => {
+  const title = (id: string) => definition?.questions.find(question => question.id === id)?.title ?? id;
+  const lines = signals.speeder ? ['Much faster than other respondents'] : [];
+
+  (Object.keys(SIGNAL_LABELS) as (keyof typeof SIGNAL_LABELS)[]).forEach(key => {
+    if (signals[key]?.length) lines.push(`${SIGNAL_LABELS[key]}: ${signals[key].map(title).join(', ')}`);
+  });
+
+  return lines;
+};
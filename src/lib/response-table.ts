@@ -0,0 +1,94 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { QualityFlag } from '@/lib/submission-protection';
+import type { QualitySignals } from '@/lib/response-quality';
+import type { SurveyAnswers, SurveyDefinition, SurveyQuestion } from '@/lib/survey-schema';
+
+type ResponseRecord = Tables<'telegram_survey'>;
+
+// Checked against the generated table type, so renaming or dropping one of
+// these columns breaks the build instead of the dashboard.
+const RESPONSE_ROW_FIELDS = [
+  'id',
+  'answers',
+  'survey_version_id',
+  'submitted_at',
+  'quality_flag',
+  'quality_score',
+  'quality_signals'
+] as const satisfies readonly (keyof ResponseRecord)[];
+
+/** The telegram_survey columns the dashboard reads, with jsonb and text columns narrowed to their app types. */
+export type ResponseRow = Omit<
+  Pick<ResponseRecord, typeof RESPONSE_ROW_FIELDS[number]>,
+  'answers' | 'quality_flag' | 'quality_signals'
+> & {
+  answers: SurveyAnswers;
+  quality_flag: QualityFlag | null;
+  quality_signals: QualitySignals;
+};
+
+// A literal, so supabase-js infers the selected row type from it; toResponseRow
+// only accepts rows with every column above.
+export const RESPONSE_ROW_COLUMNS = 'id, answers, survey_version_id, submitted_at, quality_flag, quality_score, quality_signals';
+
+/** Narrows a selected row's jsonb and text columns to their app types. */
+export const toResponseRow = (record: Pick<ResponseRecord, typeof RESPONSE_ROW_FIELDS[number]>): ResponseRow => ({
+  ...record,
+  answers: record.answers as SurveyAnswers,
+  quality_flag: record.quality_flag as QualityFlag | null,
+  quality_signals: record.quality_signals as QualitySignals
+});
+
+// Fixed columns; every other column id is a question id.
+export const SUBMITTED_COLUMN = 'submitted_at';
+export const QUALITY_COLUMN = 'quality';
+
+export const PAGE_SIZES = [10, 25, 50, 100];
+
+export interface ResponseSort {
+  column: string;
+  ascending: boolean;
+}
+
+export const DEFAULT_RESPONSE_SORT: ResponseSort = { column: SUBMITTED_COLUMN, ascending: false };
+
+// Arrays and matrix answers have no meaningful order, so only questions with
+// a single scalar answer can be sorted on.
+export const isSortableQuestion = (question: SurveyQuestion) =>
+  !['multiple_choice', 'matrix'].includes(question.type);
+
+/**
+ * The PostgREST column to order by. Answers are compared as jsonb rather than
+ * text so ratings sort numerically.
+ */
+export const responseOrderColumn = (column: string) => {
+  if (column === SUBMITTED_COLUMN) return 'submitted_at';
+  if (column === QUALITY_COLUMN) return 'quality_score';
+  return `answers->${column}`;
+};
+
+// Long free text makes rows unreadably tall, so it starts out hidden.
+export const defaultHiddenColumns = (definition: SurveyDefinition) =>
+  definition.questions.filter(question => question.type === 'long_text').map(question => question.id);
+
+const hiddenColumnsKey = (surveyId: string) => `dashboard-hidden-columns:${surveyId}`;
+
+// Same as survey drafts: failing storage only means the choice isn't
+// remembered across visits.
+export const readHiddenColumns = (surveyId: string): string[] | null => {
+  try {
+    const stored = localStorage.getItem(hiddenColumnsKey(surveyId));
+    return stored ? (JSON.parse(stored) as string[]) : null;
+  } catch (error) {
+    console.error('Error reading table columns:', error);
+    return null;
+  }
+};
+
+export const writeHiddenColumns = (surveyId: string, columns: string[]) => {
+  try {
+    localStorage.setItem(hiddenColumnsKey(surveyId), JSON.stringify(columns));
+  } catch (error) {
+    console.error('Error saving table columns:', error);
+  }
+};
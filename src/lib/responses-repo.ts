@@ -0,0 +1,199 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import type { CrosstabCount } from '@/lib/crosstab';
+import {
+  ALL_RESPONSES,
+  CLEAN_RESPONSES,
+  FLAGGED_RESPONSES,
+  type AnswerCount,
+  type DraftCount,
+  type ResponsePage,
+  type ResponseQuery,
+  type StatsArgs
+} from '@/lib/responses';
+import { RESPONSE_ROW_COLUMNS, responseOrderColumn, toResponseRow, type ResponseRow } from '@/lib/response-table';
+import type { SubmissionChallenge, SubmissionProtection } from '@/lib/submission-protection';
+import type { SurveyAnswers } from '@/lib/survey-schema';
+import type { AnswerTrendRow, ResponseTrendRow, TrendGranularity } from '@/lib/trends';
+
+// Exports read this many rows at a time so they never hold every response in
+// memory. Matches the API's default row limit.
+const EXPORT_BATCH_SIZE = 1000;
+
+/** A completed response as the submit-response edge function takes it. */
+export interface ResponseSubmission {
+  surveyId: string;
+  versionId: string;
+  answers: SurveyAnswers;
+  protection: SubmissionProtection;
+  // Marks the respondent's server draft as completed.
+  resumeToken?: string | null;
+  // Idempotency key: submitting again with the same id returns the response
+  // saved the first time instead of adding another.
+  submissionId?: string;
+}
+
+/** How trend queries bucket responses: calendar periods in `timeZone`. */
+export interface TrendPeriod {
+  granularity: TrendGranularity;
+  timeZone: string;
+}
+
+export interface SubmitResult {
+  id?: string;
+  // Messages keyed by question id; `_form` for problems with the whole response.
+  errors?: Record<string, string>;
+}
+
+/**
+ * Everything the app reads or writes about survey responses. Pages and
+ * hooks go through this rather than the Supabase client, so the backend can
+ * be swapped (see storage.ts) and the row types come from the generated
+ * Database types.
+ */
+export interface ResponsesRepo {
+  /** Issues the challenge a respondent solves before submitting; call it when the survey opens. */
+  startChallenge(surveyId: string): Promise<SubmissionChallenge>;
+  /** Submits answers; invalid ones come back as per-question errors instead of being saved. */
+  insert(submission: ResponseSubmission): Promise<SubmitResult>;
+  /** One page of matching responses and how many match across all pages. */
+  list(surveyId: string, query: ResponseQuery, page: ResponsePage): Promise<{ rows: ResponseRow[]; count: number }>;
+  /** Number of responses matching the dashboard filters. */
+  count(surveyId: string, args: StatsArgs): Promise<number>;
+  /** Answer counts per chart question. */
+  aggregate(surveyId: string, args: StatsArgs): Promise<AnswerCount[]>;
+  /** Unfinished drafts by where they stopped. */
+  drafts(surveyId: string, versionId?: string): Promise<DraftCount[]>;
+  /** Every matching response, oldest first, a batch at a time. */
+  export(surveyId: string, query: ResponseQuery): AsyncGenerator<ResponseRow[]>;
+  /** Responses per pair of answers to two questions. */
+  crosstab(surveyId: string, rowQuestion: string, columnQuestion: string, args: StatsArgs): Promise<CrosstabCount[]>;
+  /** Answers to one question per period. */
+  answerTrend(surveyId: string, question: string, period: TrendPeriod, args: StatsArgs): Promise<AnswerTrendRow[]>;
+  /** Responses per period; with `question`, only those that answered it. */
+  responseTrend(surveyId: string, period: TrendPeriod, args: StatsArgs, question?: string): Promise<ResponseTrendRow[]>;
+}
+
+export const createSupabaseResponsesRepo = (client: SupabaseClient<Database>): ResponsesRepo => {
+  // The filtered_responses query shared by the list and exports; callers add
+  // their own select, order and range.
+  const filteredResponses = (surveyId: string, query: ResponseQuery, count?: 'exact') => {
+    let builder = client.rpc('filtered_responses', { _survey_id: surveyId, _filters: query.filters }, { count });
+
+    if (query.versionId) {
+      builder = builder.eq('survey_version_id', query.versionId);
+    }
+
+    if (query.flag === CLEAN_RESPONSES) {
+      builder = builder.is('quality_flag', null);
+    } else if (query.flag === FLAGGED_RESPONSES) {
+      builder = builder.not('quality_flag', 'is', null);
+    } else if (query.flag && query.flag !== ALL_RESPONSES) {
+      builder = builder.eq('quality_flag', query.flag);
+    }
+
+    if (query.minQuality !== undefined) {
+      builder = builder.or(`quality_score.is.null,quality_score.gte.${query.minQuality}`);
+    }
+
+    return builder;
+  };
+
+  return {
+    async startChallenge(surveyId) {
+      const { data, error } = await client.functions.invoke('start-submission', { body: { surveyId } });
+      if (error) throw error;
+      return data as SubmissionChallenge;
+    },
+
+    // The edge function adds spam checks, then calls the submit_response
+    // database function, which checks the answers against the survey version.
+    async insert(submission) {
+      const { data, error } = await client.functions.invoke('submit-response', { body: submission });
+      if (error) throw error;
+      return data as SubmitResult;
+    },
+
+    async list(surveyId, query, { page, pageSize, sort }) {
+      const { data, error, count } = await filteredResponses(surveyId, query, 'exact')
+        .select(RESPONSE_ROW_COLUMNS)
+        .order(responseOrderColumn(sort.column), { ascending: sort.ascending, nullsFirst: false })
+        .order('submitted_at', { ascending: false })
+        .range((page - 1) * pageSize, page * pageSize - 1);
+
+      if (error) throw error;
+
+      return { rows: (data || []).map(row => toResponseRow(row)), count: count || 0 };
+    },
+
+    async count(surveyId, args) {
+      const { data, error } = await client.rpc('get_response_total', { ...args, _survey_id: surveyId });
+      if (error) throw error;
+      return data || 0;
+    },
+
+    async aggregate(surveyId, args) {
+      const { data, error } = await client.rpc('get_answer_counts', { ...args, _survey_id: surveyId });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async drafts(surveyId, versionId) {
+      const { data, error } = await client.rpc('get_draft_funnel', { _survey_id: surveyId, _survey_version_id: versionId });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async *export(surveyId, query) {
+      for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+        const { data, error } = await filteredResponses(surveyId, query)
+          .select(RESPONSE_ROW_COLUMNS)
+          .order('submitted_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + EXPORT_BATCH_SIZE - 1);
+
+        if (error) throw error;
+
+        const rows = (data || []).map(row => toResponseRow(row));
+        yield rows;
+
+        if (rows.length < EXPORT_BATCH_SIZE) break;
+      }
+    },
+
+    async crosstab(surveyId, rowQuestion, columnQuestion, args) {
+      const { data, error } = await client.rpc('get_crosstab', {
+        ...args,
+        _survey_id: surveyId,
+        _row_question: rowQuestion,
+        _column_question: columnQuestion
+      });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async answerTrend(surveyId, question, { granularity, timeZone }, args) {
+      const { data, error } = await client.rpc('get_answer_trend', {
+        ...args,
+        _survey_id: surveyId,
+        _question: question,
+        _granularity: granularity,
+        _time_zone: timeZone
+      });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async responseTrend(surveyId, { granularity, timeZone }, args, question) {
+      const { data, error } = await client.rpc('get_response_trend', {
+        ...args,
+        _survey_id: surveyId,
+        _granularity: granularity,
+        _time_zone: timeZone,
+        _question: question
+      });
+      if (error) throw error;
+      return data || [];
+    }
+  };
+};
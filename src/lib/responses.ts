@@ -0,0 +1,34 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { ResponseSort } from '@/lib/response-table';
+
+type Functions = Database['public']['Functions'];
+
+// Which responses the list shows: everything, unflagged, flagged, or one flag.
+export const ALL_RESPONSES = 'all';
+export const CLEAN_RESPONSES = 'clean';
+export const FLAGGED_RESPONSES = 'flagged';
+
+/** Everything on the dashboard that narrows which responses are listed or exported. */
+export interface ResponseQuery {
+  filters?: Json;
+  versionId?: string;
+  minQuality?: number;
+  // ALL_RESPONSES, CLEAN_RESPONSES, FLAGGED_RESPONSES or a quality flag.
+  flag?: string;
+}
+
+/** Arguments every dashboard aggregate RPC takes alongside the survey id. */
+export type StatsArgs = Omit<Functions['get_answer_counts']['Args'], '_survey_id'>;
+
+/** One row of the get_answer_counts RPC. */
+export type AnswerCount = Functions['get_answer_counts']['Returns'][number];
+
+/** One row of the get_draft_funnel RPC. */
+export type DraftCount = Functions['get_draft_funnel']['Returns'][number];
+
+/** Which page of the response list to load, and in what order. */
+export interface ResponsePage {
+  page: number;
+  pageSize: number;
+  sort: ResponseSort;
+}
@@ -0,0 +1,256 @@
+import { completed, promised } from '@/lib/indexed-db';
+import {
+  answerTrend,
+  countAnswers,
+  crosstabCounts,
+  draftFunnel,
+  matchesQuery,
+  matchesStats,
+  responseFieldErrors,
+  responseTrend,
+  sortResponses,
+  type LocalDraft,
+  type LocalResponse
+} from '@/lib/local-queries';
+import type { StatsArgs } from '@/lib/responses';
+import type { StorageAdapter } from '@/lib/storage';
+import {
+  toLoadedSurvey,
+  toSurveyVersions,
+  type SurveyRecord,
+  type SurveyVersionRecord
+} from '@/lib/survey-records';
+
+const DB_NAME = 'survey-local';
+const DB_VERSION = 1;
+
+// Loaded into an empty database the first time local mode starts.
+const SEED_URL = `${import.meta.env.BASE_URL}local-seed.json`;
+
+// Same batch size as the Supabase export, so progress updates look alike.
+const EXPORT_BATCH_SIZE = 1000;
+
+type LocalSurvey = SurveyRecord & { created_at: string };
+type LocalSurveyVersion = SurveyVersionRecord & { survey_id: string };
+
+interface LocalSeed {
+  surveys: LocalSurvey[];
+  survey_versions: LocalSurveyVersion[];
+  responses?: LocalResponse[];
+}
+
+type StoreName = 'surveys' | 'survey_versions' | 'responses' | 'drafts';
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('surveys', { keyPath: 'id' }).createIndex('slug', 'slug', { unique: true });
+      db.createObjectStore('survey_versions', { keyPath: 'id' }).createIndex('survey_id', 'survey_id');
+      db.createObjectStore('responses', { keyPath: 'id' }).createIndex('survey_id', 'survey_id');
+      db.createObjectStore('drafts', { keyPath: 'resume_token' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const seedDatabase = async (db: IDBDatabase) => {
+  const existing = await promised(db.transaction('surveys').objectStore('surveys').count());
+  if (existing > 0) return;
+
+  const response = await fetch(SEED_URL);
+  if (!response.ok) throw new Error(`Couldn't load ${SEED_URL}: ${response.status}`);
+  const seed = (await response.json()) as LocalSeed;
+
+  const transaction = db.transaction(['surveys', 'survey_versions', 'responses'], 'readwrite');
+  seed.surveys.forEach(survey => transaction.objectStore('surveys').put(survey));
+  seed.survey_versions.forEach(version => transaction.objectStore('survey_versions').put(version));
+  (seed.responses || []).forEach(row => transaction.objectStore('responses').put(row));
+  await completed(transaction);
+};
+
+/**
+ * Keeps everything in IndexedDB in this browser, for development, demos and
+ * tests without a network. Dashboard queries run in memory over the stored
+ * rows, which is fine for the few thousand responses a demo has.
+ */
+export const createLocalStorage = (): StorageAdapter => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  // Opened on first use so importing this module never touches IndexedDB.
+  const open = () => {
+    if (!database) {
+      database = openDatabase()
+        .then(async db => {
+          await seedDatabase(db);
+          return db;
+        })
+        .catch(error => {
+          // Let the next call try again, e.g. once the seed file is reachable.
+          database = null;
+          throw error;
+        });
+    }
+    return database;
+  };
+
+  const getAll = async <T>(store: StoreName, index?: string, key?: IDBValidKey): Promise<T[]> => {
+    const objectStore = (await open()).transaction(store).objectStore(store);
+    return promised(index ? objectStore.index(index).getAll(key) : objectStore.getAll());
+  };
+
+  const get = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+    promised((await open()).transaction(store).objectStore(store).get(key));
+
+  const put = async (store: StoreName, value: unknown) => {
+    const transaction = (await open()).transaction(store, 'readwrite');
+    transaction.objectStore(store).put(value);
+    await completed(transaction);
+  };
+
+  const surveyVersions = async (surveyId: string) =>
+    toSurveyVersions(
+      (await getAll<LocalSurveyVersion>('survey_versions', 'survey_id', surveyId)).sort((a, b) => b.version - a.version)
+    );
+
+  const surveyResponses = (surveyId: string) => getAll<LocalResponse>('responses', 'survey_id', surveyId);
+
+  const responsesFor = async (surveyId: string, args: StatsArgs) =>
+    (await surveyResponses(surveyId)).filter(response => matchesStats(response, args));
+
+  return {
+    backend: 'local',
+
+    surveys: {
+      async list() {
+        const surveys = await getAll<LocalSurvey>('surveys');
+        return surveys
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(({ id, slug, title }) => ({ id, slug, title }));
+      },
+
+      async bySlug(slug) {
+        const [survey] = await getAll<LocalSurvey>('surveys', 'slug', slug);
+        if (!survey) throw Object.assign(new Error(`No survey with slug "${slug}"`), { status: 404 });
+        return toLoadedSurvey(survey);
+      },
+
+      versions: surveyVersions
+    },
+
+    drafts: {
+      async save(surveyId, draft) {
+        const resumeToken = draft.resumeToken ?? crypto.randomUUID();
+        const existing = await get<LocalDraft>('drafts', resumeToken);
+        const saved: LocalDraft = {
+          resume_token: resumeToken,
+          survey_id: surveyId,
+          survey_version_id: draft.versionId,
+          answers: draft.answers,
+          last_step: draft.step,
+          updated_at: new Date().toISOString(),
+          completed_at: existing?.completed_at ?? null
+        };
+        await put('drafts', saved);
+        return resumeToken;
+      },
+
+      async load(resumeToken) {
+        const saved = await get<LocalDraft>('drafts', resumeToken);
+        return saved
+          ? { surveyId: saved.survey_id, versionId: saved.survey_version_id, answers: saved.answers, step: saved.last_step }
+          : null;
+      }
+    },
+
+    responses: {
+      // Nothing checks the challenge locally.
+      async startChallenge() {
+        return { id: crypto.randomUUID(), issuedAt: new Date().toISOString() };
+      },
+
+      // Checks answers against the version like submit_response does; there
+      // is no spam protection or quality scoring locally.
+      async insert({ surveyId, versionId, answers, resumeToken, submissionId }) {
+        if (submissionId) {
+          const saved = (await surveyResponses(surveyId)).find(response => response.submission_id === submissionId);
+          if (saved) return { id: saved.id };
+        }
+
+        const survey = await get<LocalSurvey>('surveys', surveyId);
+        if (!survey?.is_active) {
+          throw Object.assign(new Error(`survey ${surveyId} is not accepting responses`), { status: 404 });
+        }
+
+        const version = (await surveyVersions(surveyId)).find(candidate => candidate.id === versionId);
+        if (!version) return { errors: { _form: 'This version of the survey no longer exists.' } };
+
+        const errors = responseFieldErrors(version.definition, answers);
+        if (Object.keys(errors).length > 0) return { errors };
+
+        const response: LocalResponse = {
+          id: crypto.randomUUID(),
+          survey_id: surveyId,
+          survey_version_id: versionId,
+          submission_id: submissionId ?? null,
+          answers,
+          submitted_at: new Date().toISOString(),
+          quality_flag: null,
+          quality_score: null,
+          quality_signals: {}
+        };
+        await put('responses', response);
+
+        const draft = resumeToken ? await get<LocalDraft>('drafts', resumeToken) : undefined;
+        if (draft) {
+          await put('drafts', { ...draft, completed_at: response.submitted_at });
+        }
+
+        return { id: response.id };
+      },
+
+      async list(surveyId, query, { page, pageSize, sort }) {
+        const matching = (await surveyResponses(surveyId)).filter(response => matchesQuery(response, query));
+        const rows = sortResponses(matching, sort).slice((page - 1) * pageSize, page * pageSize);
+        return { rows, count: matching.length };
+      },
+
+      async count(surveyId, args) {
+        return (await responsesFor(surveyId, args)).length;
+      },
+
+      async aggregate(surveyId, args) {
+        return countAnswers(await responsesFor(surveyId, args), await surveyVersions(surveyId), args._survey_version_id);
+      },
+
+      async drafts(surveyId, versionId) {
+        const drafts = (await getAll<LocalDraft>('drafts'))
+          .filter(draft => draft.survey_id === surveyId && (!versionId || draft.survey_version_id === versionId));
+        return draftFunnel(drafts, await surveyVersions(surveyId));
+      },
+
+      async *export(surveyId, query) {
+        const matching = (await surveyResponses(surveyId))
+          .filter(response => matchesQuery(response, query))
+          .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at) || a.id.localeCompare(b.id));
+
+        for (let offset = 0; offset === 0 || offset < matching.length; offset += EXPORT_BATCH_SIZE) {
+          yield matching.slice(offset, offset + EXPORT_BATCH_SIZE);
+        }
+      },
+
+      async crosstab(surveyId, rowQuestion, columnQuestion, args) {
+        return crosstabCounts(await responsesFor(surveyId, args), rowQuestion, columnQuestion);
+      },
+
+      async answerTrend(surveyId, question, period, args) {
+        return answerTrend(await responsesFor(surveyId, args), question, period);
+      },
+
+      async responseTrend(surveyId, period, args, question) {
+        return responseTrend(await responsesFor(surveyId, args), period, question);
+      }
+    }
+  };
+};
@@ -0,0 +1,106 @@
+import type { StorageAdapter } from '@/lib/storage';
+import type { ResponseRow } from '@/lib/response-table';
+import {
+  toLoadedSurvey,
+  toSurveyVersions,
+  type SurveyRecord,
+  type SurveyVersionRecord
+} from '@/lib/survey-records';
+import type { SurveyAnswers } from '@/lib/survey-schema';
+import type { SurveySummary } from '@/lib/surveys';
+
+// Same batch size as the Supabase export.
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Talks JSON to a generic HTTP API rooted at `baseUrl`. Surveys are plain
+ * resources; every response method is a POST to /responses/<method> whose
+ * body holds the method's arguments by name and whose reply is its result.
+ * Rows use the Supabase column names. The server handles access control;
+ * the browser sends its cookies.
+ */
+export const createRestStorage = (baseUrl: string | undefined): StorageAdapter => {
+  const root = (baseUrl || '/api').replace(/\/$/, '');
+
+  const request = async <T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> => {
+    const response = await fetch(`${root}${path}`, {
+      method,
+      credentials: 'include',
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const detail = await response.json().catch(() => null) as { message?: string } | null;
+      throw Object.assign(new Error(detail?.message || `${method} ${path} failed with ${response.status}`), {
+        status: response.status
+      });
+    }
+
+    return response.status === 204 ? null : response.json();
+  };
+
+  const call = <T>(method: string, args: Record<string, unknown>) => request<T>('POST', `/responses/${method}`, args);
+
+  return {
+    backend: 'rest',
+
+    surveys: {
+      list: () => request<SurveySummary[]>('GET', '/surveys'),
+
+      async bySlug(slug) {
+        return toLoadedSurvey(await request<SurveyRecord>('GET', `/surveys/${encodeURIComponent(slug)}`));
+      },
+
+      async versions(surveyId) {
+        return toSurveyVersions(await request<SurveyVersionRecord[]>('GET', `/surveys/${surveyId}/versions`));
+      }
+    },
+
+    drafts: {
+      save: (surveyId, draft) =>
+        request<string>('POST', '/drafts', {
+          survey_id: surveyId,
+          survey_version_id: draft.versionId,
+          answers: draft.answers,
+          last_step: draft.step,
+          resume_token: draft.resumeToken
+        }),
+
+      async load(resumeToken) {
+        try {
+          const saved = await request<{ survey_id: string; survey_version_id: string; answers: SurveyAnswers; last_step: number }>(
+            'GET',
+            `/drafts/${encodeURIComponent(resumeToken)}`
+          );
+          return { surveyId: saved.survey_id, versionId: saved.survey_version_id, answers: saved.answers, step: saved.last_step };
+        } catch (error) {
+          if ((error as { status?: number }).status === 404) return null;
+          throw error;
+        }
+      }
+    },
+
+    responses: {
+      startChallenge: surveyId => call('start-challenge', { surveyId }),
+      insert: submission => call('insert', { ...submission }),
+      list: (surveyId, query, page) => call('list', { surveyId, query, page }),
+      count: (surveyId, args) => call('count', { surveyId, args }),
+      aggregate: (surveyId, args) => call('aggregate', { surveyId, args }),
+      drafts: (surveyId, versionId) => call('drafts', { surveyId, versionId }),
+
+      async *export(surveyId, query) {
+        for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+          const rows = await call<ResponseRow[]>('export', { surveyId, query, offset, limit: EXPORT_BATCH_SIZE });
+          yield rows;
+          if (rows.length < EXPORT_BATCH_SIZE) break;
+        }
+      },
+
+      crosstab: (surveyId, rowQuestion, columnQuestion, args) =>
+        call('crosstab', { surveyId, rowQuestion, columnQuestion, args }),
+      answerTrend: (surveyId, question, period, args) => call('answer-trend', { surveyId, question, period, args }),
+      responseTrend: (surveyId, period, args, question) => call('response-trend', { surveyId, period, args, question })
+    }
+  };
+};
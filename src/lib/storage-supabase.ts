@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createSupabaseResponsesRepo } from '@/lib/responses-repo';
+import type { StorageAdapter } from '@/lib/storage';
+import { toLoadedSurvey, toSurveyVersions } from '@/lib/survey-records';
+import type { SurveyAnswers } from '@/lib/survey-schema';
+
+/** The hosted backend: tables, RPCs and edge functions in the Supabase project. */
+export const createSupabaseStorage = (client = supabase): StorageAdapter => ({
+  backend: 'supabase',
+
+  surveys: {
+    async list() {
+      const { data, error } = await client
+        .from('surveys')
+        .select('id, slug, title')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return data || [];
+    },
+
+    async bySlug(slug) {
+      const { data, error } = await client
+        .from('surveys')
+        .select('id, slug, title, is_active, current_version_id, definition')
+        .eq('slug', slug)
+        .single();
+
+      if (error) throw error;
+
+      return toLoadedSurvey(data);
+    },
+
+    async versions(surveyId) {
+      const { data, error } = await client
+        .from('survey_versions')
+        .select('id, version, created_at, definition')
+        .eq('survey_id', surveyId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      return toSurveyVersions(data || []);
+    }
+  },
+
+  drafts: {
+    // Through the save-draft edge function, which rate-limits saves per IP.
+    async save(surveyId, draft) {
+      const { data, error } = await client.functions.invoke('save-draft', {
+        body: {
+          surveyId,
+          versionId: draft.versionId,
+          answers: draft.answers,
+          step: draft.step,
+          resumeToken: draft.resumeToken
+        }
+      });
+
+      if (error) throw error;
+
+      return (data as { resumeToken: string }).resumeToken;
+    },
+
+    async load(resumeToken) {
+      const { data, error } = await client.rpc('load_survey_draft', { _resume_token: resumeToken });
+      if (error) throw error;
+
+      const [saved] = data || [];
+      return saved
+        ? {
+            surveyId: saved.survey_id,
+            versionId: saved.survey_version_id,
+            answers: saved.answers as SurveyAnswers,
+            step: saved.last_step
+          }
+        : null;
+    }
+  },
+
+  responses: createSupabaseResponsesRepo(client)
+});
@@ -0,0 +1,63 @@
+import { createLocalStorage } from '@/lib/storage-local';
+import { createRestStorage } from '@/lib/storage-rest';
+import { createSupabaseStorage } from '@/lib/storage-supabase';
+import type { ResponsesRepo } from '@/lib/responses-repo';
+import type { SurveyDraft } from '@/lib/survey-drafts';
+import type { SurveyAnswers } from '@/lib/survey-schema';
+import type { LoadedSurvey, SurveySummary, SurveyVersion } from '@/lib/surveys';
+
+export type StorageBackend = 'supabase' | 'rest' | 'local';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['supabase', 'rest', 'local'];
+
+export interface SurveysRepo {
+  /** Every survey, oldest first. */
+  list(): Promise<SurveySummary[]>;
+  /** Loads a survey by slug and validates its definition. */
+  bySlug(slug: string): Promise<LoadedSurvey>;
+  /** Every saved version of a survey, newest first. */
+  versions(surveyId: string): Promise<SurveyVersion[]>;
+}
+
+/** A server-side draft as loaded from its resume token. */
+export interface SavedDraft {
+  surveyId: string;
+  versionId: string;
+  answers: SurveyAnswers;
+  step: number;
+}
+
+export interface DraftsRepo {
+  /** Saves the draft and returns its resume token. */
+  save(surveyId: string, draft: SurveyDraft): Promise<string>;
+  load(resumeToken: string): Promise<SavedDraft | null>;
+}
+
+/**
+ * Where surveys, drafts and responses are kept. Sign-in, live updates and
+ * the survey builder only work against Supabase.
+ */
+export interface StorageAdapter {
+  backend: StorageBackend;
+  surveys: SurveysRepo;
+  drafts: DraftsRepo;
+  responses: ResponsesRepo;
+}
+
+// VITE_STORAGE_BACKEND picks the backend; anything unknown falls back to
+// Supabase so a typo can't silently send a deployment to local storage.
+export const storageBackend = (): StorageBackend => {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND as StorageBackend | undefined;
+  if (!configured) return 'supabase';
+  if (STORAGE_BACKENDS.includes(configured)) return configured;
+  console.error(`Unknown VITE_STORAGE_BACKEND "${configured}", using supabase`);
+  return 'supabase';
+};
+
+const createStorage = (backend: StorageBackend): StorageAdapter => {
+  if (backend === 'local') return createLocalStorage();
+  if (backend === 'rest') return createRestStorage(import.meta.env.VITE_REST_API_URL);
+  return createSupabaseStorage();
+};
+
+export const storage = createStorage(storageBackend());
@@ -0,0 +1,147 @@
+/**
+ * Client side of the submission protection in the submit-response edge
+ * function: a device token, the honeypot value and the solution to a
+ * challenge the server issued when the survey was opened. None of these
+ * block a submission on their own; the function flags responses that fail
+ * them.
+ */
+
+export type QualityFlag = 'honeypot' | 'too_fast' | 'challenge_failed' | 'rate_limited' | 'duplicate_device';
+
+// Why a response was flagged, as shown on the dashboard.
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  honeypot: 'Honeypot filled',
+  too_fast: 'Too fast',
+  challenge_failed: 'Challenge failed',
+  rate_limited: 'Rate limited',
+  duplicate_device: 'Repeat device'
+};
+
+/**
+ * Issued by the server when a respondent opens the survey. The id seeds the
+ * challenge and the server times the response from `issuedAt`; each one
+ * counts for a single response.
+ */
+export interface SubmissionChallenge {
+  id: string;
+  issuedAt: string;
+}
+
+export interface SubmissionProtection {
+  deviceToken: string;
+  honeypot: string;
+  challenge: {
+    // Null when no challenge could be fetched, e.g. offline; the response is
+    // then flagged as challenge_failed.
+    id: string | null;
+    provider: string;
+    solution: string | null;
+  };
+}
+
+/**
+ * Solves a challenge for a seed. Each provider needs a verifier with the same
+ * id in supabase/functions/submit-response/index.ts.
+ */
+export interface ChallengeProvider {
+  solve: (seed: string) => Promise<string | null>;
+}
+
+// A visually hidden input that people never fill in but form-filling bots do.
+export const HONEYPOT_FIELD = 'website';
+
+const DEVICE_KEY = 'survey_device';
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+// Must match POW_DIFFICULTY in the edge function.
+const POW_DIFFICULTY = 14;
+
+/**
+ * A random id kept in both a cookie and localStorage, so clearing one of them
+ * doesn't reset it. It identifies a browser, not a person.
+ */
+export const getDeviceToken = () => {
+  const fromCookie = document.cookie
+    .split('; ')
+    .find(cookie => cookie.startsWith(`${DEVICE_KEY}=`))
+    ?.split('=')[1];
+
+  let token = fromCookie;
+  try {
+    token = token || localStorage.getItem(DEVICE_KEY) || undefined;
+  } catch (error) {
+    console.error('Error reading device token:', error);
+  }
+  token = token || crypto.randomUUID();
+
+  document.cookie = `${DEVICE_KEY}=${token}; max-age=${ONE_YEAR_SECONDS}; path=/; SameSite=Lax`;
+  try {
+    localStorage.setItem(DEVICE_KEY, token);
+  } catch (error) {
+    console.error('Error saving device token:', error);
+  }
+
+  return token;
+};
+
+const sha256 = async (text: string) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+const leadingZeroBits = (bytes: Uint8Array) => {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+};
+
+// Finds a nonce whose SHA-256 of "<seed>:<nonce>" starts with enough zero
+// bits. Cheap once, expensive hundreds of times.
+const proofOfWork: ChallengeProvider = {
+  solve: async seed => {
+    for (let nonce = 0; ; nonce += 1) {
+      if (leadingZeroBits(await sha256(`${seed}:${nonce}`)) >= POW_DIFFICULTY) return String(nonce);
+    }
+  }
+};
+
+const challengeProviders: Record<string, ChallengeProvider> = {
+  none: { solve: async () => null },
+  proof_of_work: proofOfWork
+};
+
+/** Adds a challenge provider, e.g. a CAPTCHA widget that resolves to a token. */
+export const registerChallengeProvider = (id: string, provider: ChallengeProvider) => {
+  challengeProviders[id] = provider;
+};
+
+// VITE_SUBMISSION_CHALLENGE picks the provider; it has to match the
+// SUBMISSION_CHALLENGE the edge function is deployed with.
+const challengeProviderId = () => import.meta.env.VITE_SUBMISSION_CHALLENGE || 'proof_of_work';
+
+export const protectSubmission = async (
+  surveyId: string,
+  challenge: SubmissionChallenge | null,
+  honeypot: string
+): Promise<SubmissionProtection> => {
+  const deviceToken = getDeviceToken();
+  const provider = challengeProviderId();
+  const solver = challengeProviders[provider];
+
+  if (!solver) {
+    console.error(`Unknown submission challenge provider "${provider}"`);
+  }
+
+  const solution = solver && challenge ? await solver.solve(`${surveyId}:${challenge.id}`) : null;
+
+  return {
+    deviceToken,
+    honeypot,
+    challenge: { id: challenge?.id ?? null, provider, solution }
+  };
+};
@@ -0,0 +1,200 @@
+import { completed, promised } from '@/lib/indexed-db';
+import { isTransientError } from '@/lib/network';
+import type { ResponseSubmission, SubmitResult } from '@/lib/responses-repo';
+import { storage } from '@/lib/storage';
+import { protectSubmission } from '@/lib/submission-protection';
+
+const DB_NAME = 'survey-submissions';
+const DB_VERSION = 1;
+const STORE = 'pending';
+
+// Retries wait 5s, 10s, 20s… up to 5 minutes between attempts.
+const FIRST_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/** A response waiting in this browser to be sent. */
+export interface QueuedSubmission {
+  // The submission's idempotency key.
+  id: string;
+  submission: ResponseSubmission;
+  queuedAt: string;
+  attempts: number;
+  // Epoch milliseconds of the next attempt.
+  retryAt: number;
+  // Why the server refused it. Refused submissions stay queued, so the
+  // answers aren't lost, but aren't retried.
+  error?: string;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const open = () => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+};
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Calls `listener` whenever the queue changes in this tab; returns an unsubscribe function. */
+export const subscribeToQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const write = async (change: (store: IDBObjectStore) => void) => {
+  const transaction = (await open()).transaction(STORE, 'readwrite');
+  change(transaction.objectStore(STORE));
+  await completed(transaction);
+  notify();
+};
+
+/** Every queued submission, oldest first. */
+export const listQueued = async () => {
+  const queued = await promised<QueuedSubmission[]>((await open()).transaction(STORE).objectStore(STORE).getAll());
+  return queued.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+/** When the next queued submission is due, or null if none are waiting. */
+export const nextRetryAt = (queued: QueuedSubmission[]) => {
+  const waiting = queued.filter(entry => !entry.error).map(entry => entry.retryAt);
+  return waiting.length > 0 ? Math.min(...waiting) : null;
+};
+
+const retryDelay = (attempts: number) => Math.min(FIRST_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+
+const refusal = (errors: Record<string, string>) => errors._form || Object.values(errors).join(' ');
+
+/** Drops the given submissions if the server refused them; pending ones are kept. */
+export const clearRefused = async (ids: string[]) => {
+  const refused = (await listQueued()).filter(entry => entry.error && ids.includes(entry.id));
+  await write(store => refused.forEach(entry => store.delete(entry.id)));
+};
+
+// A survey opened offline has no challenge, and the response would be
+// flagged without one; ask for it now, as the survey page does on submit.
+const withChallenge = async (submission: ResponseSubmission): Promise<ResponseSubmission> => {
+  const { surveyId, protection } = submission;
+  if (protection.challenge.id) return submission;
+
+  const challenge = await storage.responses.startChallenge(surveyId);
+  return { ...submission, protection: await protectSubmission(surveyId, challenge, protection.honeypot) };
+};
+
+const send = async (entry: QueuedSubmission) => {
+  let { submission } = entry;
+  try {
+    submission = await withChallenge(submission);
+    const result = await storage.responses.insert(submission);
+    await write(store => {
+      if (result.errors) {
+        store.put({ ...entry, submission, error: refusal(result.errors) });
+      } else {
+        store.delete(entry.id);
+      }
+    });
+  } catch (error) {
+    const attempts = entry.attempts + 1;
+    const retry = isTransientError(error)
+      ? { attempts, retryAt: Date.now() + retryDelay(attempts) }
+      : { attempts, error: (error as Error).message || 'The response was refused.' };
+    // Keeps a challenge fetched above, so the retry doesn't need another.
+    await write(store => store.put({ ...entry, submission, ...retry }));
+  }
+};
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Sends every queued submission that is due, or all of them with `all`
+ * (e.g. when the browser comes back online). Overlapping calls share one run.
+ */
+export const flushQueue = (all = false) => {
+  if (!flushing) {
+    flushing = (async () => {
+      const now = Date.now();
+      const due = (await listQueued()).filter(entry => !entry.error && (all || entry.retryAt <= now));
+      for (const entry of due) {
+        await send(entry);
+      }
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+/**
+ * Sends queued submissions for as long as the app is open, on any page:
+ * straight away, again whenever the browser comes back online, and
+ * otherwise when each one's backoff is up. Returns a function that stops it.
+ */
+export const startQueueFlusher = () => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = (all = false) =>
+    flushQueue(all).catch(error => console.error('Error sending queued responses:', error));
+
+  const schedule = async () => {
+    try {
+      const retryAt = nextRetryAt(await listQueued());
+      clearTimeout(timer);
+      if (retryAt !== null) timer = setTimeout(() => flush(), Math.max(retryAt - Date.now(), 0));
+    } catch (error) {
+      console.error('Error reading queued responses:', error);
+    }
+  };
+
+  const handleOnline = () => flush(true);
+
+  const unsubscribe = subscribeToQueue(schedule);
+  window.addEventListener('online', handleOnline);
+  schedule();
+  flush();
+
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+    window.removeEventListener('online', handleOnline);
+  };
+};
+
+/**
+ * Submits a response, or queues it in IndexedDB when the network is down so
+ * flushQueue can send it later. Every submission gets an idempotency key,
+ * so a retry never saves the same response twice.
+ */
+export const submitOrQueue = async (submission: ResponseSubmission): Promise<SubmitResult & { queued?: boolean }> => {
+  const queued = { ...submission, submissionId: submission.submissionId ?? crypto.randomUUID() };
+
+  try {
+    return await storage.responses.insert(queued);
+  } catch (error) {
+    if (!isTransientError(error)) throw error;
+
+    console.error('Error submitting response, queueing it:', error);
+    await write(store =>
+      store.put({
+        id: queued.submissionId,
+        submission: queued,
+        queuedAt: new Date().toISOString(),
+        attempts: 1,
+        retryAt: Date.now() + retryDelay(1)
+      } satisfies QueuedSubmission)
+    );
+    return { queued: true };
+  }
+};
@@ -0,0 +1,135 @@
+import {
+  OTHER_OPTION,
+  type QuestionType,
+  type SurveyDefinition,
+  type SurveyOption,
+  type SurveyQuestion,
+  type SurveyRule,
+  type SurveySection
+} from '@/lib/survey-schema';
+
+const nextQuestionId = (existingIds: string[]) => {
+  let n = existingIds.length + 1;
+  while (existingIds.includes(`question_${n}`)) n += 1;
+  return `question_${n}`;
+};
+
+const labelsToOptions = (labels: string[]): SurveyOption[] =>
+  labels.map(label => ({ id: '', label }));
+
+export const optionKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'option';
+
+/**
+ * Options added in the builder have no id until they are first saved; the id
+ * is then derived from the label and never changes, even if the label does.
+ */
+const withOptionIds = (items: SurveyOption[] | undefined, reserved: string[] = []) => {
+  if (!items) return items;
+  const used = new Set([...reserved, ...items.map(item => item.id).filter(Boolean)]);
+
+  return items.map(item => {
+    if (item.id) return item;
+    const base = optionKey(item.label);
+    let id = base;
+    for (let n = 2; used.has(id); n += 1) id = `${base}_${n}`;
+    used.add(id);
+    return { ...item, id };
+  });
+};
+
+export const assignOptionIds = (definition: SurveyDefinition): SurveyDefinition => ({
+  ...definition,
+  questions: definition.questions.map(question => ({
+    ...question,
+    options: withOptionIds(question.options, question.allowOther ? [OTHER_OPTION.id] : []),
+    rows: withOptionIds(question.rows)
+  }))
+});
+
+/** Fills in whatever fields a question type needs and drops the rest. */
+export const withQuestionType = (question: SurveyQuestion, type: QuestionType): SurveyQuestion => {
+  const base: SurveyQuestion = {
+    id: question.id,
+    type,
+    title: question.title,
+    helpText: question.helpText,
+    required: question.required,
+    section: question.section
+  };
+
+  switch (type) {
+    case 'single_choice':
+    case 'multiple_choice':
+      return {
+        ...base,
+        options: question.options?.length ? question.options : labelsToOptions(['Option 1', 'Option 2']),
+        allowOther: question.allowOther
+      };
+    case 'matrix':
+      return {
+        ...base,
+        options: question.options?.length ? question.options : labelsToOptions(['Disagree', 'Neutral', 'Agree']),
+        rows: question.rows?.length ? question.rows : labelsToOptions(['Statement 1'])
+      };
+    case 'rating':
+      return {
+        ...base,
+        scaleMax: question.scaleMax || 5,
+        minLabel: question.minLabel,
+        maxLabel: question.maxLabel
+      };
+    case 'nps':
+      return {
+        ...base,
+        minLabel: question.minLabel || 'Not at all likely',
+        maxLabel: question.maxLabel || 'Extremely likely'
+      };
+    default:
+      return { ...base, placeholder: question.placeholder, maxLength: question.maxLength };
+  }
+};
+
+export const createQuestion = (type: QuestionType, definition: SurveyDefinition): SurveyQuestion =>
+  withQuestionType(
+    {
+      id: nextQuestionId(definition.questions.map(question => question.id)),
+      type,
+      title: 'Untitled question',
+      required: false
+    },
+    type
+  );
+
+export const createSurveyDefinition = (title: string): SurveyDefinition => assignOptionIds({
+  title,
+  description: '',
+  questions: [
+    withQuestionType({ id: 'question_1', type: 'single_choice', title: 'Untitled question', required: true }, 'single_choice')
+  ]
+});
+
+export const createSection = (definition: SurveyDefinition): SurveySection => {
+  const ids = (definition.sections || []).map(section => section.id);
+  let n = ids.length + 1;
+  while (ids.includes(`section_${n}`)) n += 1;
+  return { id: `section_${n}`, title: `Section ${n}` };
+};
+
+export const createRule = (definition: SurveyDefinition): SurveyRule => {
+  const [first, second] = definition.questions;
+  return {
+    when: [{ question: first.id, operator: 'answered' }],
+    match: 'all',
+    action: 'show',
+    target: (second || first).id
+  };
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number) => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
@@ -0,0 +1,66 @@
+import { storage } from '@/lib/storage';
+import type { SurveyAnswers } from '@/lib/survey-schema';
+import type { LoadedSurvey } from '@/lib/surveys';
+
+export interface SurveyDraft {
+  versionId: string;
+  answers: SurveyAnswers;
+  // Zero-based page of the multi-step flow.
+  step: number;
+  resumeToken: string | null;
+}
+
+const storageKey = (slug: string) => `survey-draft:${slug}`;
+
+// localStorage can be full or disabled (e.g. private browsing); that only
+// means answers aren't kept across reloads, so failures are just logged.
+export const readLocalDraft = (slug: string): SurveyDraft | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(slug));
+    return stored ? (JSON.parse(stored) as SurveyDraft) : null;
+  } catch (error) {
+    console.error('Error reading survey draft:', error);
+    return null;
+  }
+};
+
+export const writeLocalDraft = (slug: string, draft: SurveyDraft) => {
+  try {
+    localStorage.setItem(storageKey(slug), JSON.stringify(draft));
+  } catch (error) {
+    console.error('Error saving survey draft:', error);
+  }
+};
+
+export const clearLocalDraft = (slug: string) => {
+  try {
+    localStorage.removeItem(storageKey(slug));
+  } catch (error) {
+    console.error('Error clearing survey draft:', error);
+  }
+};
+
+/** Saves the draft server-side and returns its resume token. */
+export const saveServerDraft = (survey: LoadedSurvey, draft: SurveyDraft): Promise<string> =>
+  storage.drafts.save(survey.id, draft);
+
+export const resumeUrl = (slug: string, resumeToken: string) =>
+  `${window.location.origin}/s/${slug}?resume=${resumeToken}`;
+
+/**
+ * Finds the draft to continue: the one behind a resume link if there is one,
+ * otherwise the one saved in this browser. Drafts answered against another
+ * version of the survey are ignored, as their answers may no longer fit.
+ */
+export const findDraft = async (survey: LoadedSurvey, resumeToken?: string | null): Promise<SurveyDraft | null> => {
+  let draft = readLocalDraft(survey.slug);
+
+  if (resumeToken) {
+    const saved = await storage.drafts.load(resumeToken);
+    draft = saved && saved.surveyId === survey.id
+      ? { versionId: saved.versionId, answers: saved.answers, step: saved.step, resumeToken }
+      : null;
+  }
+
+  return draft && draft.versionId === survey.versionId ? draft : null;
+};
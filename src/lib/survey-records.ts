@@ -0,0 +1,36 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { parseSurveyDefinition } from '@/lib/survey-schema';
+import type { LoadedSurvey, SurveyVersion } from '@/lib/surveys';
+
+// Rows as every storage backend returns them, named after the Supabase tables.
+export type SurveyRecord = Pick<
+  Tables<'surveys'>,
+  'id' | 'slug' | 'title' | 'is_active' | 'current_version_id' | 'definition'
+>;
+export type SurveyVersionRecord = Pick<Tables<'survey_versions'>, 'id' | 'version' | 'created_at' | 'definition'>;
+
+/** Validates a survey row's definition; throws if it doesn't parse. */
+export const toLoadedSurvey = (record: SurveyRecord): LoadedSurvey => {
+  const parsed = parseSurveyDefinition(record.definition);
+  if (!parsed.success) throw parsed.error;
+
+  return {
+    id: record.id,
+    slug: record.slug,
+    title: record.title,
+    isActive: record.is_active,
+    versionId: record.current_version_id,
+    definition: parsed.data
+  };
+};
+
+/** Versions whose definitions parse; invalid ones are logged and skipped. */
+export const toSurveyVersions = (records: SurveyVersionRecord[]): SurveyVersion[] =>
+  records.flatMap(record => {
+    const parsed = parseSurveyDefinition(record.definition);
+    if (!parsed.success) {
+      console.error(`Skipping invalid survey version ${record.version}:`, parsed.error);
+      return [];
+    }
+    return [{ id: record.id, version: record.version, createdAt: record.created_at, definition: parsed.data }];
+  });
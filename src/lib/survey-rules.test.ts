@@ -0,0 +1,183 @@
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { evaluateRules } from '@/lib/survey-rules';
+import type { SurveyAnswers, SurveyDefinition } from '@/lib/survey-schema';
+import { latestFunctionDefinitions } from '@/test/migrations';
+
+// The survey page (evaluateRules) and the validate_response_rules trigger
+// (evaluate_survey_rules) have to agree on every case, or the trigger
+// rejects responses the page let through.
+
+interface RuleCase {
+  name: string;
+  definition: SurveyDefinition;
+  answers: SurveyAnswers;
+  hidden: string[];
+  required: string[];
+}
+
+const question = (id: string, section?: string) =>
+  ({ id, type: 'single_choice', title: id, required: false, section }) as SurveyDefinition['questions'][number];
+
+const sectioned: Pick<SurveyDefinition, 'title' | 'sections' | 'questions'> = {
+  title: 'Sections',
+  sections: [
+    { id: 'intro', title: 'Intro' },
+    { id: 'details', title: 'Details' },
+    { id: 'outro', title: 'Outro' }
+  ],
+  questions: [question('uses', 'intro'), question('why', 'details'), question('extra', 'details'), question('thanks', 'outro')]
+};
+
+const flat = (...ids: string[]): Pick<SurveyDefinition, 'title' | 'questions'> => ({
+  title: 'Flat',
+  questions: ids.map(id => question(id))
+});
+
+const cases: RuleCase[] = [
+  {
+    name: 'no rules',
+    definition: flat('a', 'b'),
+    answers: { a: 'x' },
+    hidden: [],
+    required: []
+  },
+  {
+    name: 'show rule that does not match hides its target',
+    definition: { ...flat('a', 'b'), rules: [{ when: [{ question: 'a', operator: 'equals', value: 'yes' }], match: 'all', action: 'show', target: 'b' }] },
+    answers: { a: 'no' },
+    hidden: ['b'],
+    required: []
+  },
+  {
+    name: 'matching show rule wins over a hide rule',
+    definition: {
+      ...flat('a', 'b'),
+      rules: [
+        { when: [{ question: 'a', operator: 'answered' }], match: 'all', action: 'hide', target: 'b' },
+        { when: [{ question: 'a', operator: 'equals', value: 'yes' }], match: 'all', action: 'show', target: 'b' }
+      ]
+    },
+    answers: { a: 'yes' },
+    hidden: [],
+    required: []
+  },
+  {
+    name: 'require rule, dropped when the target is hidden',
+    definition: {
+      ...flat('a', 'b', 'c'),
+      rules: [
+        { when: [{ question: 'a', operator: 'answered' }], match: 'all', action: 'require', target: 'b' },
+        { when: [{ question: 'a', operator: 'answered' }], match: 'all', action: 'require', target: 'c' },
+        { when: [{ question: 'a', operator: 'answered' }], match: 'all', action: 'hide', target: 'c' }
+      ]
+    },
+    answers: { a: 'x' },
+    hidden: ['c'],
+    required: ['b']
+  },
+  {
+    name: 'answers to hidden questions are ignored by later rules',
+    definition: {
+      ...flat('a', 'b', 'c'),
+      rules: [
+        { when: [{ question: 'a', operator: 'equals', value: 'skip' }], match: 'all', action: 'hide', target: 'b' },
+        { when: [{ question: 'b', operator: 'answered' }], match: 'all', action: 'show', target: 'c' }
+      ]
+    },
+    answers: { a: 'skip', b: 'stale' },
+    hidden: ['b', 'c'],
+    required: []
+  },
+  {
+    name: 'any-match rules with includes and greater_than',
+    definition: {
+      ...flat('a', 'b', 'c'),
+      rules: [
+        {
+          when: [
+            { question: 'a', operator: 'includes', value: 'bots' },
+            { question: 'b', operator: 'greater_than', value: 8 }
+          ],
+          match: 'any',
+          action: 'hide',
+          target: 'c'
+        }
+      ]
+    },
+    answers: { a: ['news', 'bots'], b: 3 },
+    hidden: ['c'],
+    required: []
+  },
+  {
+    name: 'skip_to hides the sections in between',
+    definition: {
+      ...sectioned,
+      rules: [{ when: [{ question: 'uses', operator: 'equals', value: 'no' }], match: 'all', action: 'skip_to', target: 'outro' }]
+    },
+    answers: { uses: 'no' },
+    hidden: ['extra', 'why'],
+    required: []
+  },
+  {
+    name: 'a skipped section wins over a matching show rule',
+    definition: {
+      ...sectioned,
+      rules: [
+        { when: [{ question: 'uses', operator: 'equals', value: 'no' }], match: 'all', action: 'skip_to', target: 'outro' },
+        { when: [{ question: 'uses', operator: 'answered' }], match: 'all', action: 'show', target: 'why' },
+        { when: [{ question: 'uses', operator: 'answered' }], match: 'all', action: 'require', target: 'why' }
+      ]
+    },
+    answers: { uses: 'no' },
+    hidden: ['extra', 'why'],
+    required: []
+  },
+  {
+    name: 'show rule inside a section that is not skipped',
+    definition: {
+      ...sectioned,
+      rules: [
+        { when: [{ question: 'uses', operator: 'equals', value: 'no' }], match: 'all', action: 'skip_to', target: 'outro' },
+        { when: [{ question: 'uses', operator: 'equals', value: 'yes' }], match: 'all', action: 'show', target: 'why' }
+      ]
+    },
+    answers: { uses: 'yes' },
+    hidden: [],
+    required: []
+  }
+];
+
+const RULE_FUNCTIONS = ['survey_answer_present', 'survey_answer_number', 'survey_condition_matches', 'evaluate_survey_rules'];
+
+const sorted = (ids: string[]) => [...ids].sort();
+
+describe('evaluateRules', () => {
+  it.each(cases)('$name', ({ definition, answers, hidden, required }) => {
+    const state = evaluateRules(definition, answers);
+    expect(sorted([...state.hidden])).toEqual(sorted(hidden));
+    expect(sorted([...state.required])).toEqual(sorted(required));
+  });
+});
+
+describe('evaluate_survey_rules', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    for (const definition of latestFunctionDefinitions(RULE_FUNCTIONS)) {
+      await db.exec(definition);
+    }
+  });
+
+  afterAll(() => db.close());
+
+  it.each(cases)('$name', async ({ definition, answers, hidden, required }) => {
+    const { rows } = await db.query<{ hidden: string[]; required: string[] }>(
+      'select hidden, required from public.evaluate_survey_rules($1::jsonb, $2::jsonb)',
+      [JSON.stringify(definition), JSON.stringify(answers)]
+    );
+    expect(sorted(rows[0].hidden)).toEqual(sorted(hidden));
+    expect(sorted(rows[0].required)).toEqual(sorted(required));
+  });
+});
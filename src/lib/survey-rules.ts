@@ -0,0 +1,151 @@
+import {
+  isAnswered,
+  type AnswerValue,
+  type SurveyAnswers,
+  type SurveyCondition,
+  type SurveyDefinition,
+  type SurveyQuestion,
+  type SurveyRule
+} from '@/lib/survey-schema';
+
+export interface RuleState {
+  // Question ids that shouldn't be shown, validated or submitted.
+  hidden: Set<string>;
+  // Question ids that a rule made required on top of their own flag.
+  required: Set<string>;
+  skippedSections: Set<string>;
+}
+
+const asNumber = (value: AnswerValue | string | number | undefined) =>
+  typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+export const conditionMatches = (condition: SurveyCondition, answers: SurveyAnswers) => {
+  const answer = answers[condition.question];
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'answered':
+      return isAnswered(answer);
+    case 'not_answered':
+      return !isAnswered(answer);
+    case 'equals':
+      return isAnswered(answer) && String(answer) === String(expected);
+    case 'not_equals':
+      return !isAnswered(answer) || String(answer) !== String(expected);
+    case 'includes':
+      return Array.isArray(answer)
+        ? answer.includes(String(expected))
+        : isAnswered(answer) && String(answer) === String(expected);
+    case 'not_includes':
+      return Array.isArray(answer)
+        ? !answer.includes(String(expected))
+        : !isAnswered(answer) || String(answer) !== String(expected);
+    case 'greater_than':
+      return asNumber(answer) > asNumber(expected);
+    case 'less_than':
+      return asNumber(answer) < asNumber(expected);
+    default:
+      return false;
+  }
+};
+
+export const ruleMatches = (rule: SurveyRule, answers: SurveyAnswers) =>
+  rule.match === 'any'
+    ? rule.when.some(condition => conditionMatches(condition, answers))
+    : rule.when.every(condition => conditionMatches(condition, answers));
+
+const sameSet = (a: Set<string>, b: Set<string>) =>
+  a.size === b.size && [...a].every(item => b.has(item));
+
+/**
+ * Works out which questions are hidden or required for the given answers.
+ * Answers to hidden questions are ignored while evaluating, so rules that
+ * depend on a question hidden by another rule settle after a few passes.
+ */
+export const evaluateRules = (definition: SurveyDefinition, answers: SurveyAnswers): RuleState => {
+  const rules = definition.rules || [];
+  const sectionIndex = new Map((definition.sections || []).map((section, index) => [section.id, index]));
+  const questionSection = new Map(definition.questions.map(question => [question.id, question.section]));
+  // Questions outside any section come before the first one.
+  const indexOfQuestionSection = (questionId: string) => sectionIndex.get(questionSection.get(questionId)) ?? -1;
+
+  let state: RuleState = { hidden: new Set(), required: new Set(), skippedSections: new Set() };
+
+  for (let pass = 0; pass <= definition.questions.length; pass += 1) {
+    const visibleAnswers = Object.fromEntries(
+      Object.entries(answers).filter(([key]) => !state.hidden.has(key.split(':')[0]))
+    );
+
+    const shown = new Set<string>();
+    const hidden = new Set<string>();
+    const required = new Set<string>();
+    const skippedSections = new Set<string>();
+
+    rules.forEach(rule => {
+      const matches = ruleMatches(rule, visibleAnswers);
+
+      if (rule.action === 'show') {
+        if (matches) shown.add(rule.target);
+        else hidden.add(rule.target);
+      } else if (matches && rule.action === 'hide') {
+        hidden.add(rule.target);
+      } else if (matches && rule.action === 'require') {
+        required.add(rule.target);
+      } else if (matches && rule.action === 'skip_to') {
+        const from = Math.max(...rule.when.map(condition => indexOfQuestionSection(condition.question)));
+        const to = sectionIndex.get(rule.target) ?? -1;
+        (definition.sections || []).slice(from + 1, Math.max(to, from + 1)).forEach(section => skippedSections.add(section.id));
+      }
+    });
+
+    // Any matching show rule wins over hide rules for the same target, but
+    // not over a skipped section. evaluate_survey_rules does the same.
+    shown.forEach(id => hidden.delete(id));
+    definition.questions.forEach(question => {
+      if (question.section && skippedSections.has(question.section)) hidden.add(question.id);
+    });
+    hidden.forEach(id => required.delete(id));
+
+    const next = { hidden, required, skippedSections };
+    const settled = sameSet(next.hidden, state.hidden);
+    state = next;
+    if (settled) break;
+  }
+
+  return state;
+};
+
+export interface SurveyStep {
+  // Section id, or UNSECTIONED_STEP_ID for questions outside any section.
+  id: string;
+  title?: string;
+  description?: string;
+  questions: SurveyQuestion[];
+}
+
+export const UNSECTIONED_STEP_ID = '';
+
+/**
+ * Splits the questions still visible under the rules into pages: questions
+ * without a section first, then one page per section that has any left.
+ */
+export const surveySteps = (definition: SurveyDefinition, answers: SurveyAnswers): SurveyStep[] => {
+  const { hidden, required } = evaluateRules(definition, answers);
+  const sections = definition.sections || [];
+  const visible = definition.questions
+    .filter(question => !hidden.has(question.id))
+    .map(question => (required.has(question.id) ? { ...question, required: true } : question));
+
+  const steps: SurveyStep[] = [];
+  const unsectioned = visible.filter(question => !sections.some(section => section.id === question.section));
+  if (unsectioned.length > 0) steps.push({ id: UNSECTIONED_STEP_ID, questions: unsectioned });
+
+  sections.forEach(section => {
+    const questions = visible.filter(question => question.section === section.id);
+    if (questions.length > 0) {
+      steps.push({ id: section.id, title: section.title, description: section.description, questions });
+    }
+  });
+
+  return steps;
+};
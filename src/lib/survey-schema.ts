@@ -0,0 +1,365 @@
+import { z } from 'zod';
+import { evaluateRules } from '@/lib/survey-rules';
+
+// Choice questions with `allowOther` get this extra option from the renderer.
+export const OTHER_OPTION = { id: 'other', label: 'Other' };
+
+export const questionTypeSchema = z.enum([
+  'single_choice',
+  'multiple_choice',
+  'text',
+  'long_text',
+  'rating',
+  'nps',
+  'matrix'
+]);
+
+export const QUESTION_TYPE_LABELS: Record<z.infer<typeof questionTypeSchema>, string> = {
+  single_choice: 'Single choice',
+  multiple_choice: 'Multiple choice',
+  text: 'Short text',
+  long_text: 'Long text',
+  rating: 'Rating',
+  nps: 'Net Promoter Score',
+  matrix: 'Matrix'
+};
+
+export const NPS_SCALE = { min: 0, max: 10 };
+
+// Text limits when a question doesn't set maxLength. submit_response enforces
+// the same numbers server-side.
+export const DEFAULT_MAX_LENGTH = { text: 500, long_text: 5000 };
+export const OTHER_MAX_LENGTH = 200;
+
+// Option ids are what answers store; labels, icons and translations are
+// only resolved when rendering. `replaces` lists ids from earlier versions
+// that this option supersedes.
+export const optionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_]*$/, 'Option ids must be snake_case'),
+  label: z.string().min(1),
+  icon: z.string().optional(),
+  // Label per locale, e.g. { "hi": "…", "pt-BR": "…" }.
+  translations: z.record(z.string().min(1)).optional(),
+  replaces: z.array(z.string()).optional()
+});
+
+export const questionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Question ids must be snake_case'),
+  type: questionTypeSchema,
+  title: z.string().min(1),
+  helpText: z.string().optional(),
+  required: z.boolean().default(false),
+  placeholder: z.string().optional(),
+  options: z.array(optionSchema).optional(),
+  // Adds an "Other" choice with a free-text input.
+  allowOther: z.boolean().optional(),
+  columns: z.number().int().min(1).max(3).optional(),
+  maxLength: z.number().int().positive().optional(),
+  // Rating questions: 1..scaleMax, with optional end labels (also used by NPS).
+  scaleMax: z.number().int().min(2).max(10).optional(),
+  minLabel: z.string().optional(),
+  maxLabel: z.string().optional(),
+  // Matrix questions: one row per statement, `options` are the columns.
+  rows: z.array(optionSchema).optional(),
+  // Id of the section this question belongs to, if the survey has sections.
+  section: z.string().optional()
+});
+
+export const sectionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Section ids must be snake_case'),
+  title: z.string().min(1),
+  description: z.string().optional()
+});
+
+export const conditionOperatorSchema = z.enum([
+  'equals',
+  'not_equals',
+  'includes',
+  'not_includes',
+  'answered',
+  'not_answered',
+  'greater_than',
+  'less_than'
+]);
+
+export const conditionSchema = z.object({
+  question: z.string(),
+  operator: conditionOperatorSchema,
+  value: z.union([z.string(), z.number()]).optional()
+});
+
+// Rules are evaluated in order against earlier answers. "show" keeps its
+// target hidden until a show rule matches; "skip_to" hides every section
+// between the one holding the rule's questions and the target section.
+export const ruleSchema = z.object({
+  when: z.array(conditionSchema).min(1),
+  match: z.enum(['all', 'any']).default('all'),
+  action: z.enum(['show', 'hide', 'require', 'skip_to']),
+  target: z.string()
+});
+
+export const surveyDefinitionSchema = z
+  .object({
+    title: z.string().min(1),
+    description: z.string().optional(),
+    sections: z.array(sectionSchema).optional(),
+    questions: z.array(questionSchema).min(1),
+    rules: z.array(ruleSchema).optional()
+  })
+  .superRefine((definition, ctx) => {
+    const seen = new Set<string>();
+    definition.questions.forEach((question, index) => {
+      if (seen.has(question.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate question id "${question.id}"`,
+          path: ['questions', index, 'id']
+        });
+      }
+      seen.add(question.id);
+
+      if ((isChoiceQuestion(question) || question.type === 'matrix') && !question.options?.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Question "${question.id}" needs at least one option`,
+          path: ['questions', index, 'options']
+        });
+      }
+
+      if (question.type === 'matrix' && !question.rows?.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Question "${question.id}" needs at least one row`,
+          path: ['questions', index, 'rows']
+        });
+      }
+
+      (['options', 'rows'] as const).forEach(key => {
+        const ids = (question[key] || []).map(option => option.id);
+        if (key === 'options' && question.allowOther) ids.push(OTHER_OPTION.id);
+        const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+        if (duplicate) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Question "${question.id}" uses the id "${duplicate}" more than once`,
+            path: ['questions', index, key]
+          });
+        }
+      });
+    });
+
+    const sectionIds = (definition.sections || []).map(section => section.id);
+    definition.questions.forEach((question, index) => {
+      if (question.section && !sectionIds.includes(question.section)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Question "${question.id}" is in unknown section "${question.section}"`,
+          path: ['questions', index, 'section']
+        });
+      }
+    });
+
+    const questionIds = definition.questions.map(question => question.id);
+    (definition.rules || []).forEach((rule, index) => {
+      rule.when.forEach((condition, conditionIndex) => {
+        if (!questionIds.includes(condition.question)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Rule ${index + 1} depends on unknown question "${condition.question}"`,
+            path: ['rules', index, 'when', conditionIndex, 'question']
+          });
+        }
+      });
+
+      const targets = rule.action === 'skip_to' ? sectionIds : questionIds;
+      if (!targets.includes(rule.target)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Rule ${index + 1} targets unknown ${rule.action === 'skip_to' ? 'section' : 'question'} "${rule.target}"`,
+          path: ['rules', index, 'target']
+        });
+      }
+
+      if (rule.action !== 'skip_to' && rule.when.some(condition => condition.question === rule.target)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Rule ${index + 1} can't depend on the question it changes`,
+          path: ['rules', index, 'target']
+        });
+      }
+    });
+  });
+
+export type QuestionType = z.infer<typeof questionTypeSchema>;
+export type SurveyOption = z.infer<typeof optionSchema>;
+export type SurveyQuestion = z.infer<typeof questionSchema>;
+export type SurveySection = z.infer<typeof sectionSchema>;
+export type ConditionOperator = z.infer<typeof conditionOperatorSchema>;
+export type SurveyCondition = z.infer<typeof conditionSchema>;
+export type SurveyRule = z.infer<typeof ruleSchema>;
+export type SurveyDefinition = z.infer<typeof surveyDefinitionSchema>;
+
+// Matrix answers map each row to the chosen column; rating and NPS are numbers.
+export type AnswerValue = string | number | string[] | Record<string, string> | null;
+export type SurveyAnswers = Record<string, AnswerValue>;
+
+export const isChoiceQuestion = (question: Pick<SurveyQuestion, 'type'>) =>
+  question.type === 'single_choice' || question.type === 'multiple_choice';
+
+/** The options a respondent can pick, including "Other" when enabled. */
+export const questionOptions = (question: SurveyQuestion): SurveyOption[] =>
+  question.allowOther ? [...(question.options || []), OTHER_OPTION] : question.options || [];
+
+/**
+ * Maps an option id answered under an earlier version onto the current
+ * option that replaces it. Ids still in use, or never replaced, are returned
+ * unchanged.
+ */
+export const resolveOptionId = (question: SurveyQuestion, id: string) =>
+  question.options?.find(option => option.id === id || option.replaces?.includes(id))?.id ?? id;
+
+/**
+ * Picks the option label for a locale, trying the exact tag ("pt-BR") and
+ * then its language ("pt") before falling back to the default label.
+ */
+export const localizedLabel = (option: SurveyOption, locale?: string) => {
+  if (!locale || !option.translations) return option.label;
+  return option.translations[locale]
+    ?? option.translations[locale.split('-')[0]]
+    ?? option.label;
+};
+
+/** Label for a stored option id; unknown ids are shown as-is. */
+export const optionLabel = (question: SurveyQuestion, id: string, locale?: string) => {
+  const option = questionOptions(question).find(o => o.id === id);
+  return option ? localizedLabel(option, locale) : id;
+};
+
+// Free text typed next to an "Other" choice is kept under its own key so the
+// choice answer itself only ever holds defined options.
+export const otherAnswerKey = (questionId: string) => `${questionId}:other`;
+
+export const parseSurveyDefinition = (value: unknown) => surveyDefinitionSchema.safeParse(value);
+
+export const answerMaxLength = (question: SurveyQuestion) =>
+  question.maxLength ?? (question.type === 'long_text' ? DEFAULT_MAX_LENGTH.long_text : DEFAULT_MAX_LENGTH.text);
+
+export const ratingScale = (question: SurveyQuestion) =>
+  question.type === 'nps' ? NPS_SCALE : { min: 1, max: question.scaleMax || 5 };
+
+const emptyAnswer = (question: SurveyQuestion): AnswerValue => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return [];
+    case 'matrix':
+      return {};
+    case 'rating':
+    case 'nps':
+      return null;
+    default:
+      return '';
+  }
+};
+
+export const emptyAnswers = (definition: SurveyDefinition): SurveyAnswers =>
+  Object.fromEntries(definition.questions.map(question => [question.id, emptyAnswer(question)]));
+
+export const isAnswered = (value: AnswerValue | undefined) => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'number') return true;
+  if (typeof value === 'string') return !!value.trim();
+  if (Array.isArray(value)) return value.length > 0;
+  return Object.keys(value).length > 0;
+};
+
+/**
+ * Returns a message per question id for every answer that doesn't satisfy
+ * the definition. An empty object means the answers can be submitted.
+ * Questions hidden by rules are skipped.
+ */
+export const validateAnswers = (definition: SurveyDefinition, answers: SurveyAnswers) => {
+  const errors: Record<string, string> = {};
+  const { hidden, required: requiredByRule } = evaluateRules(definition, answers);
+
+  definition.questions.forEach(question => {
+    if (hidden.has(question.id)) return;
+
+    const value = answers[question.id];
+    const required = question.required || requiredByRule.has(question.id);
+
+    if (required && !isAnswered(value)) {
+      errors[question.id] = question.type === 'multiple_choice'
+        ? 'Please select at least one option.'
+        : 'This question is required.';
+      return;
+    }
+
+    if (required && question.type === 'matrix' && value && typeof value === 'object' && !Array.isArray(value)) {
+      const missing = (question.rows || []).filter(row => !value[row.id]);
+      if (missing.length > 0) {
+        errors[question.id] = 'Please answer every row.';
+        return;
+      }
+    }
+
+    const maxLength = answerMaxLength(question);
+    if (typeof value === 'string' && value.length > maxLength) {
+      errors[question.id] = `Please keep this under ${maxLength} characters.`;
+    }
+
+    const otherText = answers[otherAnswerKey(question.id)];
+    if (question.allowOther && typeof otherText === 'string' && otherText.trim().length > OTHER_MAX_LENGTH) {
+      errors[question.id] = `Please keep your "Other" answer under ${OTHER_MAX_LENGTH} characters.`;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Drops empty answers, answers to questions hidden by rules, and "Other"
+ * text whose choice was unselected.
+ */
+export const compactAnswers = (definition: SurveyDefinition, answers: SurveyAnswers) => {
+  const result: SurveyAnswers = {};
+  const { hidden } = evaluateRules(definition, answers);
+
+  definition.questions.forEach(question => {
+    const value = answers[question.id];
+    if (hidden.has(question.id) || !isAnswered(value)) return;
+
+    result[question.id] = typeof value === 'string' ? value.trim() : value;
+
+    const otherText = answers[otherAnswerKey(question.id)];
+    const otherSelected = Array.isArray(value) ? value.includes(OTHER_OPTION.id) : value === OTHER_OPTION.id;
+    if (question.allowOther && otherSelected && typeof otherText === 'string' && otherText.trim()) {
+      result[otherAnswerKey(question.id)] = otherText.trim();
+    }
+  });
+
+  return result;
+};
+
+/** Flattens an answer (plus any "Other" text) into a single display string. */
+export const formatAnswer = (question: SurveyQuestion, answers: SurveyAnswers) => {
+  const value = answers[question.id];
+  const other = answers[otherAnswerKey(question.id)];
+
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (Array.isArray(value)) {
+    text = value.map(id => optionLabel(question, id)).join(', ');
+  } else if (typeof value === 'object') {
+    text = (question.rows || [])
+      .filter(row => value[row.id])
+      .map(row => `${row.label}: ${optionLabel(question, value[row.id])}`)
+      .join('; ');
+  } else if (typeof value === 'string' && isChoiceQuestion(question)) {
+    text = optionLabel(question, value);
+  } else {
+    text = String(value);
+  }
+
+  return other ? `${text} (${other})` : text;
+};
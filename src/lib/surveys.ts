@@ -0,0 +1,107 @@
+import { isTransientError } from '@/lib/network';
+import { storage } from '@/lib/storage';
+import {
+  OTHER_OPTION,
+  questionOptions,
+  type SurveyDefinition,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
+
+export const DEFAULT_SURVEY_SLUG = 'telegram';
+
+export interface SurveySummary {
+  id: string;
+  slug: string;
+  title: string;
+}
+
+export interface LoadedSurvey extends SurveySummary {
+  isActive: boolean;
+  versionId: string | null;
+  definition: SurveyDefinition;
+}
+
+export interface SurveyVersion {
+  id: string;
+  version: number;
+  createdAt: string;
+  definition: SurveyDefinition;
+}
+
+const cacheKey = (slug: string) => `survey:${slug}`;
+
+// The last copy of each survey loaded in this browser, so the survey page
+// still opens offline. Like drafts, a failing localStorage is only logged.
+const readCachedSurvey = (slug: string): LoadedSurvey | null => {
+  try {
+    const stored = localStorage.getItem(cacheKey(slug));
+    return stored ? (JSON.parse(stored) as LoadedSurvey) : null;
+  } catch (error) {
+    console.error('Error reading cached survey:', error);
+    return null;
+  }
+};
+
+const writeCachedSurvey = (survey: LoadedSurvey) => {
+  try {
+    localStorage.setItem(cacheKey(survey.slug), JSON.stringify(survey));
+  } catch (error) {
+    console.error('Error caching survey:', error);
+  }
+};
+
+// Where these come from depends on the storage backend; see storage.ts.
+export const fetchSurveyBySlug = (slug: string) => storage.surveys.bySlug(slug);
+
+/**
+ * fetchSurveyBySlug for the survey page, falling back to the copy cached by
+ * the last successful load when the network is down. Editors shouldn't use
+ * it: the copy may be out of date.
+ */
+export const fetchSurveyForRespondent = async (slug: string) => {
+  try {
+    const survey = await fetchSurveyBySlug(slug);
+    writeCachedSurvey(survey);
+    return survey;
+  } catch (error) {
+    const cached = isTransientError(error) ? readCachedSurvey(slug) : null;
+    if (!cached) throw error;
+    return cached;
+  }
+};
+
+export const fetchSurveys = () => storage.surveys.list();
+
+export const fetchSurveyVersions = (surveyId: string) => storage.surveys.versions(surveyId);
+
+/**
+ * Finds a label for an option id, falling back to older versions for ids
+ * that have since been removed.
+ */
+export const findOptionLabel = (versions: SurveyVersion[], questionId: string, optionId: string) => {
+  for (const version of versions) {
+    const question = version.definition.questions.find(q => q.id === questionId);
+    const option = question?.options?.find(o => o.id === optionId);
+    if (option) return option.label;
+  }
+  return optionId === OTHER_OPTION.id ? OTHER_OPTION.label : optionId;
+};
+
+/** Label for an option of `question`, or of an older version of it. */
+export const answerOptionLabel = (versions: SurveyVersion[], question: SurveyQuestion, optionId: string) =>
+  questionOptions(question).find(option => option.id === optionId)?.label
+    ?? findOptionLabel(versions, question.id, optionId);
+
+/** A question as it read in the given version, or `question` if that version didn't have it. */
+export const findVersionQuestion = (versions: SurveyVersion[], versionId: string, question: SurveyQuestion) =>
+  versions
+    .find(version => version.id === versionId)
+    ?.definition.questions.find(q => q.id === question.id) ?? question;
+
+/**
+ * `definition`'s questions, then questions only earlier versions had (as the
+ * newest of them worded it), so exports keep answers to removed questions.
+ */
+export const allVersionQuestions = (definition: SurveyDefinition, versions: SurveyVersion[]) =>
+  [...definition.questions, ...versions.flatMap(version => version.definition.questions)]
+    .filter((question, index, all) => all.findIndex(other => other.id === question.id) === index);
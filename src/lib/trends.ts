@@ -0,0 +1,73 @@
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  parseISO
+} from 'date-fns';
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export const GRANULARITY_LABELS: Record<TrendGranularity, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly'
+};
+
+// Periods averaged by the rolling average: a week of days, roughly a month
+// of weeks, a quarter of months.
+export const ROLLING_WINDOW: Record<TrendGranularity, number> = {
+  day: 7,
+  week: 4,
+  month: 3
+};
+
+/** One row of the get_answer_trend RPC. `period` is the first day of the period. */
+export interface AnswerTrendRow {
+  period: string;
+  answer: string;
+  total: number;
+}
+
+/** One row of the get_response_trend RPC. */
+export interface ResponseTrendRow {
+  period: string;
+  total: number;
+}
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Intl.supportedValuesOf is newer than our TypeScript lib target.
+const supportedTimeZones = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+
+/** Time zones to offer, with the browser's own and UTC first. */
+export const timeZoneOptions = () => {
+  const zones = supportedTimeZones?.('timeZone') ?? [];
+  return [...new Set([browserTimeZone(), 'UTC', ...zones])];
+};
+
+export const formatPeriod = (period: string, granularity: TrendGranularity) =>
+  format(parseISO(period), granularity === 'month' ? 'MMM yyyy' : 'MMM dd');
+
+/**
+ * Every period from the first to the last one given, so gaps with no
+ * responses show up as zeros rather than being skipped.
+ */
+export const fillPeriods = (periods: string[], granularity: TrendGranularity) => {
+  if (periods.length === 0) return [];
+  const sorted = [...periods].sort();
+  const interval = { start: parseISO(sorted[0]), end: parseISO(sorted[sorted.length - 1]) };
+  const dates = granularity === 'day'
+    ? eachDayOfInterval(interval)
+    : granularity === 'week'
+      ? eachWeekOfInterval(interval, { weekStartsOn: 1 })
+      : eachMonthOfInterval(interval);
+  return dates.map(date => format(date, 'yyyy-MM-dd'));
+};
+
+/** Trailing mean over up to `window` values; the first few average what's available. */
+export const rollingAverage = (values: number[], window: number) =>
+  values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((sum, value) => sum + value, 0) / slice.length;
+  });
@@ -0,0 +1,127 @@
+/**
+ * Just enough of the zip format to package an XLSX workbook in the browser:
+ * uncompressed entries written incrementally, so a large sheet can be built
+ * from chunks without ever holding it as one string. No zip64, so archives
+ * must stay under 4 GB.
+ */
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return c >>> 0;
+};
+
+interface ZipFile {
+  name: Uint8Array;
+  // Running CRC state; inverted once the file is finished.
+  crc: number;
+  size: number;
+  parts: Blob[];
+}
+
+// Bit 11: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+
+// 1980-01-01 00:00 in DOS date/time format; the zip has no use for real mtimes.
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+const localHeader = (file: ZipFile, crc: number) => {
+  const header = new DataView(new ArrayBuffer(30));
+  header.setUint32(0, 0x04034b50, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(6, UTF8_FLAG, true);
+  header.setUint16(8, 0, true);
+  header.setUint16(10, DOS_TIME, true);
+  header.setUint16(12, DOS_DATE, true);
+  header.setUint32(14, crc, true);
+  header.setUint32(18, file.size, true);
+  header.setUint32(22, file.size, true);
+  header.setUint16(26, file.name.length, true);
+  header.setUint16(28, 0, true);
+  return header.buffer;
+};
+
+const centralHeader = (file: ZipFile, crc: number, offset: number) => {
+  const header = new DataView(new ArrayBuffer(46));
+  header.setUint32(0, 0x02014b50, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(6, 20, true);
+  header.setUint16(8, UTF8_FLAG, true);
+  header.setUint16(10, 0, true);
+  header.setUint16(12, DOS_TIME, true);
+  header.setUint16(14, DOS_DATE, true);
+  header.setUint32(16, crc, true);
+  header.setUint32(20, file.size, true);
+  header.setUint32(24, file.size, true);
+  header.setUint16(28, file.name.length, true);
+  // Extra field, comment, disk number and attributes are all zero.
+  header.setUint32(42, offset, true);
+  return header.buffer;
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number) => {
+  const record = new DataView(new ArrayBuffer(22));
+  record.setUint32(0, 0x06054b50, true);
+  record.setUint16(8, count, true);
+  record.setUint16(10, count, true);
+  record.setUint32(12, size, true);
+  record.setUint32(16, offset, true);
+  return record.buffer;
+};
+
+export interface ZipWriter {
+  /** Starts a new entry; text passed to the returned function is appended to it. */
+  addFile: (name: string) => (text: string) => void;
+  toBlob: (type: string) => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const files: ZipFile[] = [];
+
+  const addFile = (name: string) => {
+    const file: ZipFile = { name: encoder.encode(name), crc: 0xffffffff, size: 0, parts: [] };
+    files.push(file);
+
+    return (text: string) => {
+      const bytes = encoder.encode(text);
+      file.crc = updateCrc(file.crc, bytes);
+      file.size += bytes.length;
+      // Blobs let the browser page large exports out of the JS heap.
+      file.parts.push(new Blob([bytes]));
+    };
+  };
+
+  const toBlob = (type: string) => {
+    const body: BlobPart[] = [];
+    const directory: BlobPart[] = [];
+    let offset = 0;
+
+    files.forEach(file => {
+      const crc = (file.crc ^ 0xffffffff) >>> 0;
+      directory.push(centralHeader(file, crc, offset), file.name);
+      body.push(localHeader(file, crc), file.name, ...file.parts);
+      offset += 30 + file.name.length + file.size;
+    });
+
+    const directorySize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+    return new Blob(
+      [...body, ...directory, endOfCentralDirectory(files.length, directorySize, offset)],
+      { type }
+    );
+  };
+
+  return { addFile, toBlob };
+};
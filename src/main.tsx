@@ -1,5 +1,18 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { startQueueFlusher } from './lib/submission-queue'
 import './index.css'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Responses queued offline are sent from whichever page is open.
+startQueueFlusher();
+
+// Production only: a worker caching dev server modules would fight with HMR.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((error) => console.error('Error registering service worker:', error));
+  });
+}
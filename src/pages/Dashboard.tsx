@@ -1,23 +1,73 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
-import { useNavigate } from 'react-router-dom';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import { 
-  PieChart, 
-  Pie, 
-  Cell, 
-  BarChart, 
-  Bar, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  Legend, 
-  ResponsiveContainer 
-} from 'recharts';
+import { useQueryErrorToast } from '@/hooks/use-query-error-toast';
+import { useResponseInserts, type InsertedResponse, type LiveStatus } from '@/hooks/use-response-inserts';
+import {
+  responseKeys,
+  useAggregates,
+  useDraftFunnel,
+  useResponseCount,
+  useResponses
+} from '@/hooks/use-responses';
+import { useAuth } from '@/hooks/use-auth';
+import AnswerChart, { type ChartDatum } from '@/components/dashboard/AnswerChart';
+import CrosstabPanel from '@/components/dashboard/CrosstabPanel';
+import DraftFunnel from '@/components/dashboard/DraftFunnel';
+import ExportMenu from '@/components/dashboard/ExportMenu';
+import NpsPanel from '@/components/dashboard/NpsPanel';
+import ResponseFilterBar from '@/components/dashboard/ResponseFilterBar';
+import ResponseTable from '@/components/dashboard/ResponseTable';
+import TrendsPanel from '@/components/dashboard/TrendsPanel';
+import {
+  applyFiltersToParams,
+  hasActiveFilters,
+  parseFilters,
+  toRpcFilters,
+  type ResponseFilters
+} from '@/lib/response-filters';
+import { QUALITY_FLAG_LABELS } from '@/lib/submission-protection';
+import { LOW_QUALITY_SCORE } from '@/lib/response-quality';
+import { storage } from '@/lib/storage';
+import {
+  ALL_RESPONSES,
+  CLEAN_RESPONSES,
+  FLAGGED_RESPONSES,
+  type ResponseQuery,
+  type StatsArgs
+} from '@/lib/responses';
+import {
+  DEFAULT_RESPONSE_SORT,
+  PAGE_SIZES,
+  type ResponseSort
+} from '@/lib/response-table';
+import {
+  DEFAULT_SURVEY_SLUG,
+  fetchSurveyBySlug,
+  fetchSurveyVersions,
+  fetchSurveys,
+  findOptionLabel,
+  type LoadedSurvey,
+  type SurveySummary,
+  type SurveyVersion
+} from '@/lib/surveys';
+import {
+  ratingScale,
+  resolveOptionId,
+  type SurveyQuestion
+} from '@/lib/survey-schema';
 import { 
   Pagination, 
   PaginationContent, 
@@ -28,112 +78,245 @@ import {
 } from '@/components/ui/pagination';
 import { format } from 'date-fns';
 
-interface SurveyResponse {
-  id: string;
-  name: string | null;
-  age_group: string;
-  usage_duration: string;
-  usage_reason: string[];
-  content_preference: string[];
-  regular_bots_or_channels: string | null;
-  recommend_telegram: string;
-  improvement_suggestions: string | null;
-  submitted_at: string;
-}
+const ALL_VERSIONS = 'all';
+const EXCLUDE_LOW_QUALITY = 'exclude_low';
+
+// New responses during a live campaign are batched into one refetch of the
+// charts and totals at most this often.
+const LIVE_REFRESH_DELAY = 3000;
+
+const LIVE_STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: 'Connecting...',
+  live: 'Live',
+  reconnecting: 'Reconnecting...'
+};
 
 const Dashboard = () => {
-  const [responses, setResponses] = useState<SurveyResponse[]>([]);
+  const { slug = DEFAULT_SURVEY_SLUG } = useParams();
+  const [surveys, setSurveys] = useState<SurveySummary[]>([]);
+  const [survey, setSurvey] = useState<LoadedSurvey | null>(null);
+  const [versions, setVersions] = useState<SurveyVersion[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
-  const [totalResponses, setTotalResponses] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [sort, setSort] = useState<ResponseSort>(DEFAULT_RESPONSE_SORT);
   const [loading, setLoading] = useState(true);
+  const [newResponses, setNewResponses] = useState(0);
+  const liveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user, hasRole, signOut } = useAuth();
+
+  // Viewers only get aggregates; raw rows (names, free text) need analyst.
+  const canViewResponses = hasRole('analyst');
 
-  const responsesPerPage = 10;
+  // Everything that narrows the charts and list is kept in the query string,
+  // so a filtered view can be bookmarked or shared.
+  const versionFilter = searchParams.get('version') || ALL_VERSIONS;
+  const excludeLowQuality = searchParams.get('quality') === EXCLUDE_LOW_QUALITY;
+  const qualityFilter = searchParams.get('flag') || ALL_RESPONSES;
+  // Search only matches for analysts (free text is theirs to read), so a
+  // shared link's ?search= is ignored for viewers instead of emptying the charts.
+  const filters = useMemo(() => {
+    const parsed = parseFilters(searchParams);
+    return canViewResponses ? parsed : { ...parsed, search: undefined };
+  }, [searchParams, canViewResponses]);
+  const filterKey = searchParams.toString();
+
+  const setParam = (key: string, value: string | null) =>
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (value) next.set(key, value);
+      else next.delete(key);
+      return next;
+    });
+
+  const setVersionFilter = (value: string) => setParam('version', value === ALL_VERSIONS ? null : value);
+  const setExcludeLowQuality = (exclude: boolean) => setParam('quality', exclude ? EXCLUDE_LOW_QUALITY : null);
+  const setFilters = (next: ResponseFilters) => setSearchParams(params => applyFiltersToParams(params, next));
+
+  useEffect(() => {
+    fetchSurveys()
+      .then(setSurveys)
+      .catch(error => console.error('Error fetching surveys:', error));
+  }, []);
 
   useEffect(() => {
-    fetchResponses();
-  }, [currentPage]);
-
-  const fetchResponses = async () => {
-    try {
-      setLoading(true);
-      
-      // Get total count
-      const { count } = await supabase
-        .from('telegram_survey')
-        .select('*', { count: 'exact', head: true });
-
-      setTotalResponses(count || 0);
-
-      // Get paginated responses
-      const { data, error } = await supabase
-        .from('telegram_survey')
-        .select('*')
-        .order('submitted_at', { ascending: false })
-        .range((currentPage - 1) * responsesPerPage, currentPage * responsesPerPage - 1);
-
-      if (error) throw error;
-      
-      setResponses(data || []);
-    } catch (error) {
-      console.error('Error fetching responses:', error);
-      toast({
-        title: "Error loading data",
-        description: "Failed to load survey responses. Please try again.",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
+    // A survey that finishes loading after the slug changed is dropped.
+    let cancelled = false;
+
+    const fetchSurvey = async () => {
+      try {
+        setLoading(true);
+
+        const loaded = await fetchSurveyBySlug(slug);
+        const loadedVersions = await fetchSurveyVersions(loaded.id);
+        if (cancelled) return;
+
+        setVersions(loadedVersions);
+        setSurvey(loaded);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error fetching survey:', error);
+        setSurvey(null);
+        toast({
+          title: "Error loading survey",
+          description: "Failed to load the survey. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    // Sorting by a question only makes sense within its own survey.
+    setSort(DEFAULT_RESPONSE_SORT);
+    fetchSurvey();
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, toast]);
+
+  useEffect(() => {
+    if (survey) {
+      setCurrentPage(1);
+      setNewResponses(0);
     }
-  };
+    return () => {
+      clearTimeout(liveTimer.current);
+      liveTimer.current = undefined;
+    };
+  }, [survey, filterKey]);
+
+  const versionId = versionFilter === ALL_VERSIONS ? undefined : versionFilter;
+  const minQuality = excludeLowQuality ? LOW_QUALITY_SCORE : undefined;
 
-  const getAgeGroupData = () => {
-    const ageGroups = responses.reduce((acc, response) => {
-      acc[response.age_group] = (acc[response.age_group] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+  // Shared by the chart and total RPCs; the list applies the same filters.
+  const statsArgs = (): StatsArgs => ({
+    _survey_version_id: versionId,
+    _min_quality: minQuality,
+    _filters: rpcFilters
+  });
+
+  const definition = versions.find(version => version.id === versionId)?.definition ?? survey?.definition;
+  const rpcFilters = definition && hasActiveFilters(filters) ? toRpcFilters(filters, definition) : undefined;
+  const responseQuery: ResponseQuery = { filters: rpcFilters, versionId, minQuality, flag: qualityFilter };
+  const isFiltered = hasActiveFilters(filters) || excludeLowQuality || versionFilter !== ALL_VERSIONS;
+
+  const totalQuery = useResponseCount(survey?.id, statsArgs());
+  const aggregatesQuery = useAggregates(survey?.id, statsArgs());
+  const draftsQuery = useDraftFunnel(survey?.id, versionId);
+  const responsesQuery = useResponses(
+    survey?.id,
+    responseQuery,
+    { page: currentPage, pageSize, sort },
+    canViewResponses
+  );
+
+  useQueryErrorToast(
+    totalQuery.error || aggregatesQuery.error || draftsQuery.error,
+    "Error loading charts",
+    "Failed to load survey statistics. Please try again."
+  );
+  useQueryErrorToast(responsesQuery.error, "Error loading data", "Failed to load survey responses. Please try again.");
 
-    return Object.entries(ageGroups).map(([name, value]) => ({ name, value }));
+  const totalResponses = totalQuery.data ?? 0;
+  const answerCounts = aggregatesQuery.data || [];
+  const draftFunnel = draftsQuery.data || [];
+  const responses = responsesQuery.data?.rows || [];
+  const listTotal = responsesQuery.data?.count || 0;
+
+  // Aggregates are refetched rather than patched locally: quality scores are
+  // set just after insert and filters are applied server-side, so only the
+  // RPCs give exact numbers. The list is left alone until asked for.
+  const scheduleLiveRefresh = () => {
+    if (liveTimer.current) return;
+    liveTimer.current = setTimeout(() => {
+      liveTimer.current = undefined;
+      if (survey) queryClient.invalidateQueries({ queryKey: responseKeys.stats(survey.id) });
+    }, LIVE_REFRESH_DELAY);
   };
 
-  const getRecommendationData = () => {
-    const recommendations = responses.reduce((acc, response) => {
-      acc[response.recommend_telegram] = (acc[response.recommend_telegram] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+  // The banner count only checks the version; the list's other filters may
+  // leave some of these out.
+  const handleInsert = (row: InsertedResponse) => {
+    if (versionId && row.survey_version_id !== versionId) return;
+    setNewResponses(n => n + 1);
+    scheduleLiveRefresh();
+  };
 
-    return Object.entries(recommendations).map(([name, value]) => ({ name, value }));
+  // Inserts while the channel was down were missed, so reload everything.
+  const handleResync = () => {
+    scheduleLiveRefresh();
+    if (survey) queryClient.invalidateQueries({ queryKey: responseKeys.lists(survey.id) });
   };
 
-  const getUsageDurationData = () => {
-    const durations = responses.reduce((acc, response) => {
-      acc[response.usage_duration] = (acc[response.usage_duration] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+  // Live updates come from Supabase Realtime, so other backends go without.
+  const isLive = canViewResponses && storage.backend === 'supabase';
+  const liveStatus = useResponseInserts(survey?.id, isLive, handleInsert, handleResync);
 
-    return Object.entries(durations).map(([name, value]) => ({ name, value }));
+  const showNewResponses = () => {
+    setNewResponses(0);
+    if (survey) queryClient.invalidateQueries({ queryKey: responseKeys.lists(survey.id) });
+    setSort(DEFAULT_RESPONSE_SORT);
+    setCurrentPage(1);
   };
 
-  const getContentPreferenceData = () => {
-    const contentCounts = responses.reduce((acc, response) => {
-      response.content_preference.forEach(content => {
-        acc[content] = (acc[content] || 0) + 1;
-      });
-      return acc;
-    }, {} as Record<string, number>);
+  // Chart data comes from server-side aggregates over every response,
+  // so it stays the same regardless of which page of the list is shown.
+  const getAnswerData = (question: SurveyQuestion): ChartDatum[] =>
+    answerCounts
+      .filter(count => count.question === question.id)
+      .map(count => ({ name: count.answer, value: count.total }));
+
+  // Option ids from older versions are folded into the current option that
+  // replaces them, then labelled from whichever version last defined them.
+  const getOptionData = (question: SurveyQuestion): ChartDatum[] => {
+    const totals = new Map<string, number>();
+    getAnswerData(question).forEach(({ name, value }) => {
+      const id = resolveOptionId(question, name);
+      totals.set(id, (totals.get(id) || 0) + value);
+    });
+    return [...totals].map(([id, value]) => ({
+      name: findOptionLabel(versions, question.id, id),
+      value
+    }));
+  };
 
-    return Object.entries(contentCounts)
-      .map(([name, value]) => ({ name: name.replace(/^[^\s]+ /, ''), value }))
+  const getMultipleChoiceData = (question: SurveyQuestion) =>
+    getOptionData(question)
       .sort((a, b) => b.value - a.value)
       .slice(0, 10);
+
+  // Scale questions chart every point in order, including ones nobody picked.
+  const getScaleData = (question: SurveyQuestion) => {
+    const counts = Object.fromEntries(getAnswerData(question).map(({ name, value }) => [name, value]));
+    const { min, max } = ratingScale(question);
+    return Array.from({ length: max - min + 1 }, (_, i) => {
+      const name = String(min + i);
+      return { name, value: counts[name] || 0 };
+    });
   };
 
-  const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D', '#FFC658', '#FF7C7C', '#8DD1E1', '#D084D0'];
+  const totalPages = Math.ceil(listTotal / pageSize);
 
-  const totalPages = Math.ceil(totalResponses / responsesPerPage);
+  const handleQualityFilterChange = (value: string) => {
+    setParam('flag', value === ALL_RESPONSES ? null : value);
+    setCurrentPage(1);
+  };
 
-  if (loading && responses.length === 0) {
+  const handlePageSizeChange = (value: string) => {
+    setPageSize(Number(value));
+    setCurrentPage(1);
+  };
+
+  const handleSortChange = (next: ResponseSort) => {
+    setSort(next);
+    setCurrentPage(1);
+  };
+
+  if (loading && !survey) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
         <div className="text-center">
@@ -144,212 +327,289 @@ const Dashboard = () => {
     );
   }
 
+  const isChartQuestion = (question: SurveyQuestion) =>
+    ['single_choice', 'multiple_choice', 'rating', 'nps'].includes(question.type);
+  const chartQuestions = definition?.questions.filter(isChartQuestion) || [];
+  const npsQuestions = chartQuestions.filter(question => question.type === 'nps');
+
+  // Questions dropped from the current version still have answers from
+  // earlier ones, so across all versions they are charted on their own.
+  const retiredQuestions = versionId ? [] : versions
+    .flatMap(version => version.definition.questions)
+    .filter(isChartQuestion)
+    .filter((question, index, all) =>
+      !chartQuestions.some(current => current.id === question.id)
+      && all.findIndex(other => other.id === question.id) === index
+      && getAnswerData(question).length > 0
+    );
+
+  const renderChart = (question: SurveyQuestion) =>
+    question.type === 'single_choice' ? (
+      <AnswerChart
+        key={question.id}
+        title={question.title}
+        data={getOptionData(question)}
+        variant="pie"
+      />
+    ) : question.type === 'rating' || question.type === 'nps' ? (
+      <AnswerChart
+        key={question.id}
+        title={question.title}
+        data={getScaleData(question)}
+        variant="bar"
+      />
+    ) : (
+      <AnswerChart
+        key={question.id}
+        title={question.title}
+        data={getMultipleChoiceData(question)}
+        variant="bar"
+        barColor="#82ca9d"
+      />
+    );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
       <div className="max-w-7xl mx-auto">
-        <div className="flex justify-between items-center mb-8">
+        <div className="flex flex-col gap-4 md:flex-row md:justify-between md:items-center mb-8">
           <div>
             <h1 className="text-4xl font-bold text-gray-800">Survey Dashboard</h1>
-            <p className="text-gray-600 mt-2">Total Responses: {totalResponses}</p>
+            <p className="text-gray-600 mt-2 flex items-center gap-3">
+              Total Responses: {totalResponses}
+              {survey && isLive && (
+                <span className="flex items-center gap-1.5 text-xs text-gray-500">
+                  <span
+                    className={`h-2 w-2 rounded-full ${liveStatus === 'live' ? 'bg-green-500' : 'bg-amber-400 animate-pulse'}`}
+                  />
+                  {LIVE_STATUS_LABELS[liveStatus]}
+                </span>
+              )}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={slug} onValueChange={(next) => navigate(`/dashboard/${next}`)}>
+              <SelectTrigger className="w-56 bg-white">
+                <SelectValue placeholder="Choose a survey" />
+              </SelectTrigger>
+              <SelectContent>
+                {surveys.map((item) => (
+                  <SelectItem key={item.id} value={item.slug}>{item.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {versions.length > 1 && (
+              <Select value={versionFilter} onValueChange={setVersionFilter}>
+                <SelectTrigger className="w-44 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VERSIONS}>All versions</SelectItem>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      Version {version.version} · {format(new Date(version.createdAt), 'MMM dd, yyyy')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex items-center space-x-2">
+              <Switch id="exclude-low-quality" checked={excludeLowQuality} onCheckedChange={setExcludeLowQuality} />
+              <Label htmlFor="exclude-low-quality">Exclude low quality</Label>
+            </div>
+            <span className="hidden sm:inline text-sm text-gray-600">{user?.email}</span>
+            {/* The admin pages and builder talk to Supabase directly. */}
+            {hasRole('admin') && storage.backend === 'supabase' && (
+              <Button variant="outline" onClick={() => navigate('/admin/surveys')}>
+                Manage Surveys
+              </Button>
+            )}
+            <Button variant="outline" onClick={signOut}>
+              Sign Out
+            </Button>
+            <Button 
+              onClick={() => navigate(`/s/${slug}`)}
+              className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            >
+              Take Survey
+            </Button>
           </div>
-          <Button 
-            onClick={() => navigate('/')}
-            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-          >
-            Take Survey
-          </Button>
         </div>
 
-        {responses.length === 0 ? (
+        {!survey ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <h2 className="text-2xl font-semibold text-gray-600 mb-4">Survey Not Found</h2>
+              <p className="text-gray-500">There is no survey at "{slug}".</p>
+            </CardContent>
+          </Card>
+        ) : totalQuery.data === 0 && !isFiltered ? (
           <Card className="text-center py-12">
             <CardContent>
               <h2 className="text-2xl font-semibold text-gray-600 mb-4">No Survey Responses Yet</h2>
               <p className="text-gray-500 mb-6">Be the first to take the survey!</p>
-              <Button onClick={() => navigate('/')}>Take Survey Now</Button>
+              <Button onClick={() => navigate(`/s/${slug}`)}>Take Survey Now</Button>
             </CardContent>
           </Card>
         ) : (
           <>
-            {/* Charts Grid */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-              {/* Age Groups Pie Chart */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Age Groups Distribution</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <PieChart>
-                      <Pie
-                        data={getAgeGroupData()}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                        outerRadius={80}
-                        fill="#8884d8"
-                        dataKey="value"
-                      >
-                        {getAgeGroupData().map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Pie>
-                      <Tooltip />
-                    </PieChart>
-                  </ResponsiveContainer>
-                </CardContent>
-              </Card>
+            <ResponseFilterBar definition={definition} filters={filters} onChange={setFilters} canSearch={canViewResponses} />
 
-              {/* Recommendation Pie Chart */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Would Recommend Telegram</CardTitle>
-                </CardHeader>
+            {totalQuery.data === 0 && (
+              <Card className="text-center py-8 mb-8">
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <PieChart>
-                      <Pie
-                        data={getRecommendationData()}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                        outerRadius={80}
-                        fill="#8884d8"
-                        dataKey="value"
-                      >
-                        {getRecommendationData().map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Pie>
-                      <Tooltip />
-                    </PieChart>
-                  </ResponsiveContainer>
+                  <p className="text-gray-500">No responses match these filters.</p>
                 </CardContent>
               </Card>
+            )}
+
+            {/* Charts Grid */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              {chartQuestions.map(renderChart)}
+            </div>
+
+            {npsQuestions.map((question) => (
+              <div key={question.id} className="mb-8">
+                <NpsPanel
+                  surveyId={survey.id}
+                  question={question}
+                  definition={definition}
+                  versions={versions}
+                  statsArgs={statsArgs()}
+                />
+              </div>
+            ))}
+
+            {retiredQuestions.length > 0 && (
+              <div className="mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-1">Questions from earlier versions</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                  No longer asked; charted separately so older answers aren't mixed with current questions.
+                </p>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {retiredQuestions.map(renderChart)}
+                </div>
+              </div>
+            )}
+
+            <div className="mb-8">
+              <TrendsPanel
+                key={survey.id}
+                surveyId={survey.id}
+                definition={definition}
+                versions={versions}
+                statsArgs={statsArgs()}
+              />
+            </div>
+
+            {chartQuestions.length > 1 && (
+              <div className="mb-8">
+                <CrosstabPanel
+                  key={survey.id}
+                  surveyId={survey.id}
+                  definition={definition}
+                  versions={versions}
+                  statsArgs={statsArgs()}
+                />
+              </div>
+            )}
+
+            {draftFunnel.length > 0 && (
+              <div className="mb-8">
+                <DraftFunnel definition={definition} rows={draftFunnel} />
+              </div>
+            )}
 
-              {/* Usage Duration Bar Chart */}
+            {/* Survey Responses List */}
+            {canViewResponses ? (
               <Card>
-                <CardHeader>
-                  <CardTitle>Telegram Usage Duration</CardTitle>
+                <CardHeader className="flex flex-col gap-3 space-y-0 md:flex-row md:items-center md:justify-between">
+                  <CardTitle>Survey Responses</CardTitle>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select value={qualityFilter} onValueChange={handleQualityFilterChange}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_RESPONSES}>All responses</SelectItem>
+                        <SelectItem value={CLEAN_RESPONSES}>Not flagged</SelectItem>
+                        <SelectItem value={FLAGGED_RESPONSES}>Flagged</SelectItem>
+                        {Object.entries(QUALITY_FLAG_LABELS).map(([flag, label]) => (
+                          <SelectItem key={flag} value={flag}>Flagged: {label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={String(pageSize)} onValueChange={handlePageSizeChange}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAGE_SIZES.map((size) => (
+                          <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <ExportMenu survey={survey} definition={definition} versions={versions} query={responseQuery} />
+                  </div>
                 </CardHeader>
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <BarChart data={getUsageDurationData()}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis 
-                        dataKey="name" 
-                        angle={-45}
-                        textAnchor="end"
-                        height={100}
-                        fontSize={12}
-                      />
-                      <YAxis />
-                      <Tooltip />
-                      <Bar dataKey="value" fill="#8884d8" />
-                    </BarChart>
-                  </ResponsiveContainer>
+                  {newResponses > 0 && (
+                    <div className="mb-4 flex items-center justify-between rounded-md border border-blue-200 bg-blue-50 px-4 py-2 text-sm text-blue-800">
+                      <span>{newResponses} new {newResponses === 1 ? 'response' : 'responses'}</span>
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={showNewResponses}>
+                        Show
+                      </Button>
+                    </div>
+                  )}
+                  <ResponseTable
+                    surveyId={survey.id}
+                    definition={definition}
+                    versions={versions}
+                    responses={responses}
+                    sort={sort}
+                    onSortChange={handleSortChange}
+                  />
+
+                  {/* Pagination */}
+                  {totalPages > 1 && (
+                    <div className="mt-6 flex justify-center">
+                      <Pagination>
+                        <PaginationContent>
+                          <PaginationItem>
+                            <PaginationPrevious 
+                              onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                              className={currentPage === 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                            />
+                          </PaginationItem>
+                          {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+                            <PaginationItem key={page}>
+                              <PaginationLink
+                                onClick={() => setCurrentPage(page)}
+                                isActive={currentPage === page}
+                                className="cursor-pointer"
+                              >
+                                {page}
+                              </PaginationLink>
+                            </PaginationItem>
+                          ))}
+                          <PaginationItem>
+                            <PaginationNext 
+                              onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                              className={currentPage === totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                            />
+                          </PaginationItem>
+                        </PaginationContent>
+                      </Pagination>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
-
-              {/* Content Preferences Bar Chart */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Top Content Preferences</CardTitle>
-                </CardHeader>
+            ) : (
+              <Card className="text-center py-8">
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <BarChart data={getContentPreferenceData()}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis 
-                        dataKey="name" 
-                        angle={-45}
-                        textAnchor="end"
-                        height={100}
-                        fontSize={10}
-                      />
-                      <YAxis />
-                      <Tooltip />
-                      <Bar dataKey="value" fill="#82ca9d" />
-                    </BarChart>
-                  </ResponsiveContainer>
+                  <p className="text-gray-500">Individual responses are only visible to analysts and admins.</p>
                 </CardContent>
               </Card>
-            </div>
-
-            {/* Survey Responses List */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Survey Responses</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {responses.map((response) => (
-                    <div key={response.id} className="border rounded-lg p-4 bg-gray-50">
-                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 text-sm">
-                        <div>
-                          <strong>Name:</strong> {response.name || 'Anonymous'}
-                        </div>
-                        <div>
-                          <strong>Age Group:</strong> {response.age_group}
-                        </div>
-                        <div>
-                          <strong>Usage Duration:</strong> {response.usage_duration}
-                        </div>
-                        <div>
-                          <strong>Recommendation:</strong> {response.recommend_telegram}
-                        </div>
-                        <div>
-                          <strong>Submitted:</strong> {format(new Date(response.submitted_at), 'MMM dd, yyyy HH:mm')}
-                        </div>
-                        <div>
-                          <strong>Bots/Channels:</strong> {response.regular_bots_or_channels || 'None specified'}
-                        </div>
-                      </div>
-                      {response.improvement_suggestions && (
-                        <div className="mt-2">
-                          <strong>Suggestions:</strong>
-                          <p className="text-gray-700 mt-1">{response.improvement_suggestions}</p>
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-
-                {/* Pagination */}
-                {totalPages > 1 && (
-                  <div className="mt-6 flex justify-center">
-                    <Pagination>
-                      <PaginationContent>
-                        <PaginationItem>
-                          <PaginationPrevious 
-                            onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-                            className={currentPage === 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
-                          />
-                        </PaginationItem>
-                        {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                          <PaginationItem key={page}>
-                            <PaginationLink
-                              onClick={() => setCurrentPage(page)}
-                              isActive={currentPage === page}
-                              className="cursor-pointer"
-                            >
-                              {page}
-                            </PaginationLink>
-                          </PaginationItem>
-                        ))}
-                        <PaginationItem>
-                          <PaginationNext 
-                            onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-                            className={currentPage === totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
-                          />
-                        </PaginationItem>
-                      </PaginationContent>
-                    </Pagination>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            )}
           </>
         )}
       </div>
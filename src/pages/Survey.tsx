@@ -1,144 +1,242 @@
-
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Checkbox } from '@/components/ui/checkbox';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import PendingSubmissions from '@/components/survey/PendingSubmissions';
+import SurveyRenderer from '@/components/survey/SurveyRenderer';
 import { useToast } from '@/hooks/use-toast';
-import { useNavigate } from 'react-router-dom';
+import { useSurveyDraft } from '@/hooks/use-survey-draft';
+import { HONEYPOT_FIELD, protectSubmission, type SubmissionChallenge } from '@/lib/submission-protection';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { DEFAULT_SURVEY_SLUG, fetchSurveyForRespondent, type LoadedSurvey } from '@/lib/surveys';
+import { storage } from '@/lib/storage';
+import { submitOrQueue } from '@/lib/submission-queue';
+import { surveySteps, type SurveyStep } from '@/lib/survey-rules';
+import { clearLocalDraft, findDraft, resumeUrl } from '@/lib/survey-drafts';
+import {
+  compactAnswers,
+  emptyAnswers,
+  validateAnswers,
+  type AnswerValue,
+  type SurveyAnswers
+} from '@/lib/survey-schema';
+
+const firstStepWithError = (steps: SurveyStep[], errors: Record<string, string>) =>
+  steps.findIndex(step => step.questions.some(question => errors[question.id]));
 
 const Survey = () => {
-  const [formData, setFormData] = useState({
-    name: '',
-    age_group: '',
-    usage_duration: '',
-    usage_reason: [] as string[],
-    content_preference: [] as string[],
-    regular_bots_or_channels: '',
-    recommend_telegram: '',
-    improvement_suggestions: '',
-    other_usage_reason: ''
-  });
+  const { slug = DEFAULT_SURVEY_SLUG } = useParams();
+  const [survey, setSurvey] = useState<LoadedSurvey | null>(null);
+  const [answers, setAnswers] = useState<SurveyAnswers>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [resumeDialogOpen, setResumeDialogOpen] = useState(false);
+  const [challenge, setChallenge] = useState<SubmissionChallenge | null>(null);
+  // Kept until a response is saved or queued, so resubmitting after fixing
+  // rejected answers can still claim the same challenge.
+  const submissionId = useRef(crypto.randomUUID());
+  const [honeypot, setHoneypot] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const navigate = useNavigate();
 
-  const ageGroups = [
-    'Under 18',
-    '18–24',
-    '25–34',
-    '35–44',
-    '45+'
-  ];
-
-  const usageDurations = [
-    'Less than 6 months',
-    '6 months – 1 year',
-    '1–3 years',
-    'More than 3 years'
-  ];
-
-  const usageReasons = [
-    'To join groups and channels',
-    'For privacy and security',
-    'For cloud-based messaging',
-    'To download movies, web series, or books',
-    'For business/marketing purposes',
-    'To chat with friends',
-    'For bots and automation',
-    'Other'
-  ];
-
-  const contentPreferences = [
-    '📽 Movies & Web Series',
-    '📚 E-books & Study Material',
-    '🎓 Educational Content',
-    '📰 News & Updates',
-    '💸 Job Alerts',
-    '🎮 Gaming Tips',
-    '💬 Motivational Quotes',
-    '🤖 Useful Bots',
-    '📱 Tech Updates',
-    '🎧 Music & Podcasts'
-  ];
-
-  const recommendOptions = ['Yes', 'No', 'Maybe'];
-
-  const handleMultipleChoice = (value: string, field: 'usage_reason' | 'content_preference') => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: prev[field].includes(value)
-        ? prev[field].filter(item => item !== value)
-        : [...prev[field], value]
-    }));
-  };
+  const definition = survey?.definition;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!formData.age_group || !formData.usage_duration || !formData.recommend_telegram) {
+  // Each section is a page. The page is kept in ?step= so the browser's back
+  // button moves between pages; rules can add or remove pages as answers change.
+  const steps = useMemo(() => (definition ? surveySteps(definition, answers) : []), [definition, answers]);
+  const stepIndex = Math.min(Math.max(Number(searchParams.get('step')) || 1, 1), Math.max(steps.length, 1)) - 1;
+  const currentStep = steps[stepIndex];
+  const isLastStep = stepIndex >= steps.length - 1;
+
+  const { resumeToken, setResumeToken } = useSurveyDraft(survey, answers, stepIndex);
+
+  const fetchSurvey = async () => {
+    try {
+      setLoading(true);
+      const loaded = await fetchSurveyForRespondent(slug);
+      const draft = await findDraft(loaded, searchParams.get('resume')).catch(error => {
+        console.error('Error loading draft:', error);
+        return null;
+      });
+
+      setSurvey(loaded);
+      setAnswers({ ...emptyAnswers(loaded.definition), ...draft?.answers });
+      setResumeToken(draft?.resumeToken ?? null);
+      startChallenge(loaded.id);
+      setErrors({});
+
+      if (draft) {
+        // Drop ?resume= so the token doesn't linger in the address bar.
+        setSearchParams(draft.step > 0 ? { step: String(draft.step + 1) } : {}, { replace: true });
+        toast({
+          title: "Welcome back",
+          description: "We've restored the answers you saved earlier."
+        });
+      } else if (searchParams.has('resume')) {
+        setSearchParams({}, { replace: true });
+        toast({
+          title: "Couldn't resume your survey",
+          description: "The link has expired or the survey has changed since you started.",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      setSurvey(null);
+      console.error('Error loading survey:', error);
       toast({
-        title: "Missing fields",
-        description: "Please fill in all required fields.",
+        title: "Error loading survey",
+        description: "The survey could not be loaded. Please refresh the page.",
         variant: "destructive"
       });
-      return;
+    } finally {
+      setLoading(false);
     }
+  };
 
-    if (formData.usage_reason.length === 0 || formData.content_preference.length === 0) {
-      toast({
-        title: "Missing selections",
-        description: "Please select at least one option for usage reason and content preference.",
-        variant: "destructive"
+  // Loads again only when the slug changes. fetchSurvey reads ?resume= and
+  // the page's state when it runs, so the effect calls the latest one.
+  const fetchSurveyRef = useRef(fetchSurvey);
+  fetchSurveyRef.current = fetchSurvey;
+
+  useEffect(() => {
+    fetchSurveyRef.current();
+  }, [slug]);
+
+  // The server times the response from when this challenge was issued.
+  const startChallenge = (surveyId: string) =>
+    storage.responses
+      .startChallenge(surveyId)
+      .catch(error => {
+        console.error('Error starting submission challenge:', error);
+        return null;
+      })
+      .then(next => {
+        setChallenge(next);
+        return next;
       });
+
+  const handleChange = (key: string, value: AnswerValue) => {
+    setAnswers(prev => ({ ...prev, [key]: value }));
+    setErrors(prev => {
+      if (!prev[key]) return prev;
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const goToStep = (index: number, replace = false) => {
+    setSearchParams(index > 0 ? { step: String(index + 1) } : {}, { replace });
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleCopyResumeLink = async () => {
+    try {
+      await navigator.clipboard.writeText(resumeUrl(slug, resumeToken));
+      toast({ title: "Link copied" });
+    } catch (error) {
+      console.error('Error copying resume link:', error);
+    }
+  };
+
+  const showMissingFields = () =>
+    toast({
+      title: "Missing fields",
+      description: "Please fill in all required fields.",
+      variant: "destructive"
+    });
+
+  const handleNext = () => {
+    const stepQuestionIds = new Set(currentStep.questions.map(question => question.id));
+    const stepErrors = Object.fromEntries(
+      Object.entries(validateAnswers(definition, answers)).filter(([id]) => stepQuestionIds.has(id))
+    );
+    setErrors(stepErrors);
+
+    if (Object.keys(stepErrors).length > 0) {
+      showMissingFields();
+      return;
+    }
+
+    goToStep(stepIndex + 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isLastStep) {
+      handleNext();
+      return;
+    }
+
+    const validationErrors = validateAnswers(definition, answers);
+    setErrors(validationErrors);
+
+    if (Object.keys(validationErrors).length > 0) {
+      // Earlier pages can still be incomplete, e.g. after opening a later ?step= directly.
+      const firstInvalid = firstStepWithError(steps, validationErrors);
+      if (firstInvalid >= 0 && firstInvalid !== stepIndex) goToStep(firstInvalid);
+      showMissingFields();
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      const finalUsageReasons = formData.usage_reason.includes('Other') && formData.other_usage_reason
-        ? [...formData.usage_reason.filter(r => r !== 'Other'), formData.other_usage_reason]
-        : formData.usage_reason;
-
-      const { error } = await supabase
-        .from('telegram_survey')
-        .insert({
-          name: formData.name || null,
-          age_group: formData.age_group,
-          usage_duration: formData.usage_duration,
-          usage_reason: finalUsageReasons,
-          content_preference: formData.content_preference,
-          regular_bots_or_channels: formData.regular_bots_or_channels || null,
-          recommend_telegram: formData.recommend_telegram,
-          improvement_suggestions: formData.improvement_suggestions || null
-        });
+      const compacted = compactAnswers(definition, answers);
+
+      // Try again if the survey was opened offline; without one the response is flagged.
+      const protection = await protectSubmission(survey.id, challenge ?? await startChallenge(survey.id), honeypot);
+      const result = await submitOrQueue({
+        surveyId: survey.id,
+        versionId: survey.versionId,
+        answers: compacted,
+        protection,
+        resumeToken,
+        submissionId: submissionId.current
+      });
 
-      if (error) {
-        throw error;
+      if (result.errors) {
+        // The server re-checks everything; show what it rejected inline.
+        const { _form: formError, ...fieldErrors } = result.errors;
+        setErrors(fieldErrors);
+        const firstInvalid = firstStepWithError(steps, fieldErrors);
+        if (firstInvalid >= 0 && firstInvalid !== stepIndex) goToStep(firstInvalid);
+        toast({
+          title: "Please check your answers",
+          description: formError || "Some answers couldn't be accepted. See the highlighted questions.",
+          variant: "destructive"
+        });
+        return;
       }
 
-      toast({
-        title: "Thank you for submitting the survey!",
-        description: "Your response has been recorded successfully."
-      });
+      toast(result.queued
+        ? {
+            title: "Thank you! You're offline",
+            description: "Your response is saved on this device and will be sent when you're back online."
+          }
+        : {
+            title: "Thank you for submitting the survey!",
+            description: "Your response has been recorded successfully."
+          });
+
+      clearLocalDraft(slug);
+      setResumeToken(null);
+      submissionId.current = crypto.randomUUID();
+      startChallenge(survey.id);
 
       // Reset form
-      setFormData({
-        name: '',
-        age_group: '',
-        usage_duration: '',
-        usage_reason: [],
-        content_preference: [],
-        regular_bots_or_channels: '',
-        recommend_telegram: '',
-        improvement_suggestions: '',
-        other_usage_reason: ''
-      });
+      setAnswers(emptyAnswers(definition));
+      goToStep(0, true);
 
     } catch (error) {
       console.error('Error submitting survey:', error);
@@ -152,161 +250,130 @@ const Survey = () => {
     }
   };
 
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!definition) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+        <Card className="max-w-md w-full text-center py-8">
+          <CardContent>
+            <h2 className="text-2xl font-semibold text-gray-600">Survey unavailable</h2>
+            <p className="text-gray-500 mt-2">Please try again later.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
       <div className="max-w-2xl mx-auto">
         <Card className="shadow-lg">
           <CardHeader className="text-center bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-t-lg">
-            <CardTitle className="text-3xl font-bold">Telegram User Survey</CardTitle>
-            <p className="text-blue-100">Help us understand how you use Telegram</p>
+            <CardTitle className="text-3xl font-bold">{definition.title}</CardTitle>
+            {definition.description && <p className="text-blue-100">{definition.description}</p>}
           </CardHeader>
           <CardContent className="p-8 space-y-6">
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {/* Name */}
-              <div className="space-y-2">
-                <Label htmlFor="name">Name (optional)</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder="Enter your name"
-                />
-              </div>
-
-              {/* Age Group */}
-              <div className="space-y-3">
-                <Label className="text-base font-medium">Age Group *</Label>
-                <RadioGroup
-                  value={formData.age_group}
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, age_group: value }))}
-                >
-                  {ageGroups.map((age) => (
-                    <div key={age} className="flex items-center space-x-2">
-                      <RadioGroupItem value={age} id={age} />
-                      <Label htmlFor={age}>{age}</Label>
-                    </div>
-                  ))}
-                </RadioGroup>
-              </div>
-
-              {/* Usage Duration */}
-              <div className="space-y-3">
-                <Label className="text-base font-medium">How long have you been using Telegram? *</Label>
-                <RadioGroup
-                  value={formData.usage_duration}
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, usage_duration: value }))}
-                >
-                  {usageDurations.map((duration) => (
-                    <div key={duration} className="flex items-center space-x-2">
-                      <RadioGroupItem value={duration} id={duration} />
-                      <Label htmlFor={duration}>{duration}</Label>
-                    </div>
-                  ))}
-                </RadioGroup>
-              </div>
-
-              {/* Usage Reasons */}
-              <div className="space-y-3">
-                <Label className="text-base font-medium">Why do you use Telegram the most? * (Multiple choice)</Label>
-                <div className="grid grid-cols-1 gap-3">
-                  {usageReasons.map((reason) => (
-                    <div key={reason} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={reason}
-                        checked={formData.usage_reason.includes(reason)}
-                        onCheckedChange={() => handleMultipleChoice(reason, 'usage_reason')}
-                      />
-                      <Label htmlFor={reason}>{reason}</Label>
-                    </div>
-                  ))}
-                </div>
-                {formData.usage_reason.includes('Other') && (
-                  <Input
-                    placeholder="Please specify other reason..."
-                    value={formData.other_usage_reason}
-                    onChange={(e) => setFormData(prev => ({ ...prev, other_usage_reason: e.target.value }))}
-                    className="mt-2"
-                  />
-                )}
-              </div>
+            <PendingSubmissions />
 
-              {/* Content Preferences */}
-              <div className="space-y-3">
-                <Label className="text-base font-medium">Which content do you like more on Telegram? * (Multiple choice)</Label>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {contentPreferences.map((content) => (
-                    <div key={content} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={content}
-                        checked={formData.content_preference.includes(content)}
-                        onCheckedChange={() => handleMultipleChoice(content, 'content_preference')}
-                      />
-                      <Label htmlFor={content} className="text-sm">{content}</Label>
-                    </div>
-                  ))}
+            {steps.length > 1 && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Step {stepIndex + 1} of {steps.length}</span>
+                  <span>{Math.round(((stepIndex + 1) / steps.length) * 100)}%</span>
                 </div>
+                <Progress value={((stepIndex + 1) / steps.length) * 100} className="h-2" />
               </div>
+            )}
 
-              {/* Regular Bots/Channels */}
-              <div className="space-y-2">
-                <Label htmlFor="bots">Do you use any Telegram bots or channels regularly?</Label>
-                <Input
-                  id="bots"
-                  value={formData.regular_bots_or_channels}
-                  onChange={(e) => setFormData(prev => ({ ...prev, regular_bots_or_channels: e.target.value }))}
-                  placeholder="e.g., @weatherbot, @newsbot, etc."
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Honeypot: hidden from people and screen readers, filled in by bots. */}
+              <div aria-hidden="true" className="absolute -left-[9999px] h-0 w-0 overflow-hidden">
+                <label htmlFor={HONEYPOT_FIELD}>Leave this field empty</label>
+                <input
+                  id={HONEYPOT_FIELD}
+                  name={HONEYPOT_FIELD}
+                  type="text"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={honeypot}
+                  onChange={(e) => setHoneypot(e.target.value)}
                 />
               </div>
 
-              {/* Recommendation */}
-              <div className="space-y-3">
-                <Label className="text-base font-medium">Would you recommend Telegram to others? *</Label>
-                <RadioGroup
-                  value={formData.recommend_telegram}
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, recommend_telegram: value }))}
-                >
-                  {recommendOptions.map((option) => (
-                    <div key={option} className="flex items-center space-x-2">
-                      <RadioGroupItem value={option} id={`recommend-${option}`} />
-                      <Label htmlFor={`recommend-${option}`}>{option}</Label>
-                    </div>
-                  ))}
-                </RadioGroup>
-              </div>
-
-              {/* Suggestions */}
-              <div className="space-y-2">
-                <Label htmlFor="suggestions">Any suggestions to improve Telegram?</Label>
-                <Textarea
-                  id="suggestions"
-                  value={formData.improvement_suggestions}
-                  onChange={(e) => setFormData(prev => ({ ...prev, improvement_suggestions: e.target.value }))}
-                  placeholder="Share your thoughts and suggestions..."
-                  rows={4}
-                />
-              </div>
+              <SurveyRenderer
+                definition={definition}
+                answers={answers}
+                errors={errors}
+                locale={navigator.language}
+                stepId={currentStep?.id}
+                onChange={handleChange}
+              />
 
               <div className="flex gap-4">
+                {stepIndex > 0 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => goToStep(stepIndex - 1)}
+                    className="flex-1"
+                  >
+                    Back
+                  </Button>
+                )}
                 <Button 
                   type="submit" 
                   disabled={isSubmitting}
                   className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
                 >
-                  {isSubmitting ? 'Submitting...' : 'Submit Survey'}
-                </Button>
-                <Button 
-                  type="button"
-                  variant="outline"
-                  onClick={() => navigate('/dashboard')}
-                  className="flex-1"
-                >
-                  See Survey Results
+                  {isLastStep ? (isSubmitting ? 'Submitting...' : 'Submit Survey') : 'Next'}
                 </Button>
+                {stepIndex === 0 && (
+                  <Button 
+                    type="button"
+                    variant="outline"
+                    onClick={() => navigate(`/dashboard/${slug}`)}
+                    className="flex-1"
+                  >
+                    See Survey Results
+                  </Button>
+                )}
               </div>
+
+              {resumeToken && (
+                <div className="text-center">
+                  <Button type="button" variant="link" onClick={() => setResumeDialogOpen(true)}>
+                    Finish later
+                  </Button>
+                </div>
+              )}
             </form>
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={resumeDialogOpen} onOpenChange={setResumeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resume your survey</DialogTitle>
+            <DialogDescription>
+              Your answers are saved. Open this link on any device to pick up where you left off.
+            </DialogDescription>
+          </DialogHeader>
+          {resumeToken && (
+            <div className="flex gap-2">
+              <Input readOnly value={resumeUrl(slug, resumeToken)} onFocus={(e) => e.target.select()} />
+              <Button type="button" onClick={handleCopyResumeLink}>Copy</Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
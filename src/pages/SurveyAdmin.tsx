@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchSurveys, type SurveySummary } from '@/lib/surveys';
+import { createSurveyDefinition } from '@/lib/survey-builder';
+
+const toSlug = (title: string) =>
+  title.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const SurveyAdmin = () => {
+  const [surveys, setSurveys] = useState<SurveySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [slug, setSlug] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSurveys()
+      .then(setSurveys)
+      .catch(error => {
+        console.error('Error fetching surveys:', error);
+        toast({
+          title: "Error loading surveys",
+          description: "Failed to load the survey list. Please try again.",
+          variant: "destructive"
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [toast]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const definition = createSurveyDefinition(title);
+
+      const { data, error } = await supabase
+        .from('surveys')
+        .insert({ slug, title, definition, is_active: false })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: versionError } = await supabase.rpc('save_survey_version', {
+        _survey_id: data.id,
+        _title: title,
+        _definition: definition
+      });
+
+      if (versionError) throw versionError;
+
+      navigate(`/admin/surveys/${slug}`);
+    } catch (error) {
+      console.error('Error creating survey:', error);
+      toast({
+        title: "Could not create survey",
+        description: error instanceof Error ? error.message : "Please check the slug is unique and try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-800">Surveys</h1>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => navigate('/dashboard')}>
+              Dashboard
+            </Button>
+            <Button
+              onClick={() => setDialogOpen(true)}
+              className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Survey
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Surveys</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {loading && <p className="text-gray-500">Loading surveys...</p>}
+            {!loading && surveys.length === 0 && <p className="text-gray-500">No surveys yet.</p>}
+            {surveys.map((survey) => (
+              <div key={survey.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 border rounded-lg p-4 bg-gray-50">
+                <div>
+                  <p className="font-medium">{survey.title}</p>
+                  <p className="text-sm text-gray-500">/s/{survey.slug}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => navigate(`/s/${survey.slug}`)}>Open</Button>
+                  <Button size="sm" variant="outline" onClick={() => navigate(`/dashboard/${survey.slug}`)}>Results</Button>
+                  <Button size="sm" onClick={() => navigate(`/admin/surveys/${survey.slug}`)}>Edit</Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New Survey</DialogTitle>
+              <DialogDescription>New surveys start unpublished so you can build them first.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="survey-title">Title</Label>
+              <Input
+                id="survey-title"
+                value={title}
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  setSlug(toSlug(e.target.value));
+                }}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="survey-slug">URL slug</Label>
+              <Input
+                id="survey-slug"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-'))}
+                required
+              />
+              <p className="text-xs text-muted-foreground">The survey will be served at /s/{slug || '…'}</p>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isCreating || !title || !slug}>
+                {isCreating ? 'Creating...' : 'Create Survey'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SurveyAdmin;
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Eye, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import QuestionEditor from '@/components/builder/QuestionEditor';
+import RulesEditor from '@/components/builder/RulesEditor';
+import SectionListEditor from '@/components/builder/SectionListEditor';
+import SurveyRenderer from '@/components/survey/SurveyRenderer';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchSurveyBySlug, fetchSurveyVersions, type LoadedSurvey, type SurveyVersion } from '@/lib/surveys';
+import { assignOptionIds, createQuestion, createRule, createSection, moveItem } from '@/lib/survey-builder';
+import {
+  QUESTION_TYPE_LABELS,
+  emptyAnswers,
+  surveyDefinitionSchema,
+  type AnswerValue,
+  type QuestionType,
+  type SurveyAnswers,
+  type SurveyDefinition,
+  type SurveyQuestion,
+  type SurveyRule,
+  type SurveySection
+} from '@/lib/survey-schema';
+
+const SurveyBuilder = () => {
+  const { slug } = useParams();
+  const [survey, setSurvey] = useState<LoadedSurvey | null>(null);
+  const [draft, setDraft] = useState<SurveyDefinition | null>(null);
+  const [versions, setVersions] = useState<SurveyVersion[]>([]);
+  const [previewAnswers, setPreviewAnswers] = useState<SurveyAnswers>({});
+  const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // A survey that finishes loading after the slug changed is dropped.
+    let cancelled = false;
+
+    const fetchSurvey = async () => {
+      try {
+        const loaded = await fetchSurveyBySlug(slug);
+        const loadedVersions = await fetchSurveyVersions(loaded.id);
+        if (cancelled) return;
+
+        setSurvey(loaded);
+        setDraft(loaded.definition);
+        setVersions(loadedVersions);
+        setPreviewAnswers(emptyAnswers(loaded.definition));
+        setIsDirty(false);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error loading survey:', error);
+        toast({
+          title: "Error loading survey",
+          description: "The survey could not be loaded for editing.",
+          variant: "destructive"
+        });
+      }
+    };
+
+    fetchSurvey();
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, toast]);
+
+  const updateDraft = (changes: Partial<SurveyDefinition>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const updateQuestions = (update: (questions: SurveyQuestion[]) => SurveyQuestion[]) =>
+    updateDraft({ questions: update(draft.questions) });
+
+  const updateSection = (index: number, section: SurveySection) =>
+    updateDraft({ sections: draft.sections.map((s, i) => (i === index ? section : s)) });
+
+  // Questions in a removed section fall back to no section, and rules that
+  // skipped to it go away with it.
+  const removeSection = (index: number) => {
+    const removed = draft.sections[index].id;
+    updateDraft({
+      sections: draft.sections.filter((_, i) => i !== index),
+      questions: draft.questions.map(q => (q.section === removed ? { ...q, section: undefined } : q)),
+      rules: (draft.rules || []).filter(rule => !(rule.action === 'skip_to' && rule.target === removed))
+    });
+  };
+
+  const updateRule = (index: number, rule: SurveyRule) =>
+    updateDraft({ rules: draft.rules.map((r, i) => (i === index ? rule : r)) });
+
+  const addQuestion = (type: QuestionType) => {
+    updateQuestions(questions => [...questions, createQuestion(type, draft)]);
+    setAddDialogOpen(false);
+  };
+
+  const handlePreviewChange = (key: string, value: AnswerValue) =>
+    setPreviewAnswers(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    const parsed = surveyDefinitionSchema.safeParse(assignOptionIds(draft));
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      toast({
+        title: "Survey can't be saved yet",
+        description: issue.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { data, error } = await supabase.rpc('save_survey_version', {
+        _survey_id: survey.id,
+        _title: parsed.data.title,
+        _definition: parsed.data
+      });
+
+      if (error) throw error;
+
+      setDraft(parsed.data);
+      setVersions(prev => [
+        { id: data.id, version: data.version, createdAt: data.created_at, definition: parsed.data },
+        ...prev
+      ]);
+      setIsDirty(false);
+      toast({
+        title: "Survey saved",
+        description: `Saved as version ${data.version}.`
+      });
+    } catch (error) {
+      console.error('Error saving survey:', error);
+      toast({
+        title: "Save failed",
+        description: "There was an error saving the survey. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePublishedChange = async (isActive: boolean) => {
+    const { error } = await supabase
+      .from('surveys')
+      .update({ is_active: isActive })
+      .eq('id', survey.id);
+
+    if (error) {
+      console.error('Error updating survey status:', error);
+      toast({
+        title: "Update failed",
+        description: "Could not change whether the survey is published.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSurvey(prev => ({ ...prev, isActive }));
+  };
+
+  if (!draft) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Option ids that earlier versions of a question used but the draft no
+  // longer has, so they can be mapped onto a current option.
+  const retiredOptionIds = (question: SurveyQuestion) => {
+    const current = new Set((question.options || []).map(option => option.id));
+    const ids = versions.flatMap(({ definition }) =>
+      definition.questions.find(q => q.id === question.id)?.options?.map(option => option.id) || []
+    );
+    return [...new Set(ids)].filter(id => !current.has(id));
+  };
+
+  const version = versions[0]?.version;
+
+  const preview = (
+    <SurveyRenderer definition={draft} answers={previewAnswers} onChange={handlePreviewChange} />
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col gap-4 md:flex-row md:justify-between md:items-center mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-800">Survey Builder</h1>
+            <p className="text-gray-600 mt-2">
+              /s/{survey.slug} · {version ? `Version ${version}` : 'Unsaved'}{isDirty && ' · unsaved changes'}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center space-x-2">
+              <Switch id="published" checked={survey.isActive} onCheckedChange={handlePublishedChange} />
+              <Label htmlFor="published">Published</Label>
+            </div>
+            <Button variant="outline" className="lg:hidden" onClick={() => setPreviewOpen(true)}>
+              <Eye className="h-4 w-4 mr-1" />
+              Preview
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/admin/surveys')}>
+              All Surveys
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !isDirty}
+              className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            >
+              {isSaving ? 'Saving...' : 'Save Version'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <Card>
+              <CardContent className="space-y-4 pt-6">
+                <div className="space-y-2">
+                  <Label htmlFor="builder-title">Survey title</Label>
+                  <Input
+                    id="builder-title"
+                    value={draft.title}
+                    onChange={(e) => updateDraft({ title: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="builder-description">Description</Label>
+                  <Textarea
+                    id="builder-description"
+                    value={draft.description || ''}
+                    onChange={(e) => updateDraft({ description: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="space-y-6 pt-6">
+                <SectionListEditor
+                  sections={draft.sections || []}
+                  onAdd={() => updateDraft({ sections: [...(draft.sections || []), createSection(draft)] })}
+                  onChange={updateSection}
+                  onRemove={removeSection}
+                />
+                <RulesEditor
+                  definition={draft}
+                  onAdd={() => updateDraft({ rules: [...(draft.rules || []), createRule(draft)] })}
+                  onChange={updateRule}
+                  onRemove={(index) => updateDraft({ rules: draft.rules.filter((_, i) => i !== index) })}
+                />
+              </CardContent>
+            </Card>
+
+            {draft.questions.map((question, index) => (
+              <QuestionEditor
+                key={index}
+                question={question}
+                index={index}
+                total={draft.questions.length}
+                retiredOptionIds={retiredOptionIds(question)}
+                sections={draft.sections}
+                onChange={(updated) => updateQuestions(questions => questions.map((q, i) => (i === index ? updated : q)))}
+                onMove={(direction) => updateQuestions(questions => moveItem(questions, index, index + direction))}
+                onRemove={() => updateQuestions(questions => questions.filter((_, i) => i !== index))}
+              />
+            ))}
+
+            <Button variant="outline" className="w-full" onClick={() => setAddDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Question
+            </Button>
+          </div>
+
+          <div className="hidden lg:block">
+            <Card className="shadow-lg sticky top-8">
+              <CardHeader className="text-center bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-t-lg">
+                <CardTitle className="text-2xl font-bold">{draft.title || 'Untitled survey'}</CardTitle>
+                {draft.description && <p className="text-blue-100">{draft.description}</p>}
+              </CardHeader>
+              <CardContent className="p-8 max-h-[75vh] overflow-y-auto">
+                {preview}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Question</DialogTitle>
+            <DialogDescription>Choose the type of question to add.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2">
+            {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+              <Button key={type} variant="outline" onClick={() => addQuestion(type as QuestionType)}>
+                {label}
+              </Button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Sheet open={previewOpen} onOpenChange={setPreviewOpen}>
+        <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{draft.title || 'Untitled survey'}</SheetTitle>
+          </SheetHeader>
+          <div className="mt-6">{preview}</div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default SurveyBuilder;
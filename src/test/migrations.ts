@@ -0,0 +1,19 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../supabase/migrations');
+
+// The latest definition of each function across the migrations, in order.
+export const latestFunctionDefinitions = (names: string[]) => {
+  const definitions = new Map<string, string>();
+  readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .forEach(file => {
+      const sql = readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+      for (const match of sql.matchAll(/create or replace function public\.(\w+)\([\s\S]*?\n\$\$;/g)) {
+        if (names.includes(match[1])) definitions.set(match[1], match[0]);
+      }
+    });
+  return names.map(name => definitions.get(name));
+};
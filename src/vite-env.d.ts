@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Challenge provider for public submissions; see src/lib/submission-protection.ts.
+  readonly VITE_SUBMISSION_CHALLENGE?: string;
+  // Where surveys and responses are stored; see src/lib/storage.ts.
+  readonly VITE_STORAGE_BACKEND?: 'supabase' | 'rest' | 'local';
+  // Base URL of the API when VITE_STORAGE_BACKEND is "rest". Defaults to /api.
+  readonly VITE_REST_API_URL?: string;
+  // Role everyone gets without signing in when storage isn't Supabase; see src/contexts/AuthContext.tsx.
+  readonly VITE_GUEST_ROLE?: 'viewer' | 'analyst' | 'admin' | 'none';
+  // Override the hosted Supabase project, e.g. to point at `supabase start`.
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY?: string;
+}
@@ -0,0 +1,37 @@
+// Helpers shared by the public edge functions.
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+export const numberEnv = (name: string, fallback: number) => Number(Deno.env.get(name) ?? fallback);
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+export const sha256 = async (text: string) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+export const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// The header the platform's proxy sets to the connecting client's address.
+// Clients can't forge it, unlike the first X-Forwarded-For entry, which is
+// whatever the client sent.
+const CLIENT_IP_HEADER = Deno.env.get('CLIENT_IP_HEADER') ?? 'cf-connecting-ip';
+
+const clientIp = (req: Request) =>
+  req.headers.get(CLIENT_IP_HEADER)?.trim()
+  // The last hop was appended by our own proxy.
+  || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  || 'unknown';
+
+/**
+ * The client's IP, hashed. Raw IPs are never stored; the salt keeps the
+ * hashes from being reversed by hashing every IPv4 address.
+ */
+export const clientIpHash = async (req: Request) =>
+  toHex(await sha256(`${Deno.env.get('IP_HASH_SALT') ?? ''}:${clientIp(req)}`));
@@ -0,0 +1,77 @@
+// Autosaves a respondent's draft through the save_survey_draft database
+// function, with the same per-IP accounting as submissions so drafts can't
+// be used to flood the database.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { clientIpHash, corsHeaders, json, numberEnv } from '../_shared/http.ts';
+
+// Saves per IP per hour. The survey page saves after every pause in typing,
+// so this is well above what one respondent needs.
+const DRAFT_SAVE_RATE_LIMIT = numberEnv('DRAFT_SAVE_RATE_LIMIT', 600);
+// Matches the cap in save_survey_draft, plus room for the other fields.
+const MAX_BODY_BYTES = 70 * 1024;
+
+interface SaveDraftRequest {
+  surveyId: string;
+  versionId: string;
+  answers: Record<string, unknown>;
+  step: number;
+  resumeToken?: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const text = await req.text();
+  if (new TextEncoder().encode(text).length > MAX_BODY_BYTES) {
+    return json({ error: 'Draft is too large' }, 413);
+  }
+
+  let body: SaveDraftRequest;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (!body.surveyId || !body.versionId) {
+    return json({ error: 'surveyId and versionId are required' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: saves, error: saveCountError } = await supabase.rpc('register_request', {
+    _kind: 'draft',
+    _survey_id: body.surveyId,
+    _ip_hash: await clientIpHash(req)
+  });
+
+  if (saveCountError) {
+    console.error('Error registering draft save:', saveCountError);
+    return json({ error: 'Could not save the draft' }, 500);
+  }
+
+  if (saves > DRAFT_SAVE_RATE_LIMIT) {
+    return json({ error: 'Too many saves, please try again later' }, 429);
+  }
+
+  const { data, error } = await supabase.rpc('save_survey_draft', {
+    _survey_id: body.surveyId,
+    _survey_version_id: body.versionId,
+    _answers: body.answers ?? {},
+    _last_step: Number(body.step) || 0,
+    _resume_token: body.resumeToken ?? undefined
+  });
+
+  if (error) {
+    console.error('Error saving draft:', error);
+    return json({ error: error.message }, error.code === 'P0002' ? 404 : 400);
+  }
+
+  return json({ resumeToken: data });
+});
@@ -0,0 +1,57 @@
+// Issues the challenge the survey page solves before submitting. Its id is
+// the proof-of-work seed and its issue time is when the respondent started,
+// so neither can be picked by the client; submit-response claims it.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { clientIpHash, corsHeaders, json, numberEnv } from '../_shared/http.ts';
+
+// Challenges per IP per hour; survey pages ask for one when they open and
+// after each submission.
+const CHALLENGE_RATE_LIMIT = numberEnv('CHALLENGE_RATE_LIMIT', 200);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let body: { surveyId?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (!body.surveyId) {
+    return json({ error: 'surveyId is required' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: requests, error: requestError } = await supabase.rpc('register_request', {
+    _kind: 'challenge',
+    _survey_id: body.surveyId,
+    _ip_hash: await clientIpHash(req)
+  });
+
+  if (requestError) {
+    console.error('Error registering challenge request:', requestError);
+    return json({ error: 'Could not start the submission' }, 500);
+  }
+
+  if (requests > CHALLENGE_RATE_LIMIT) {
+    return json({ error: 'Too many requests, please try again later' }, 429);
+  }
+
+  const { data, error } = await supabase.rpc('issue_submission_challenge', { _survey_id: body.surveyId });
+  const [challenge] = data ?? [];
+
+  if (error || !challenge) {
+    console.error('Error issuing submission challenge:', error);
+    return json({ error: error?.message ?? 'Could not start the submission' }, error?.code === 'P0002' ? 404 : 500);
+  }
+
+  return json({ id: challenge.id, issuedAt: challenge.issued_at });
+});
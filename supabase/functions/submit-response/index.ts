@@ -0,0 +1,177 @@
+// Public entry point for survey submissions. Checks the request for signs of
+// spam, then saves it through the submit_response database function with the
+// service role. Suspicious submissions are saved with a quality_flag instead
+// of being rejected; only clear floods from one IP get a 429.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { clientIpHash, corsHeaders, json, numberEnv, sha256 } from '../_shared/http.ts';
+
+// Attempts per IP per hour before responses get flagged, and before they're refused.
+const RATE_LIMIT = numberEnv('SUBMISSION_RATE_LIMIT', 20);
+const HARD_RATE_LIMIT = numberEnv('SUBMISSION_HARD_RATE_LIMIT', 100);
+// Responses faster than this are flagged as speeders.
+const MIN_COMPLETION_SECONDS = numberEnv('MIN_COMPLETION_SECONDS', 10);
+// Must match POW_DIFFICULTY in src/lib/submission-protection.ts.
+const POW_DIFFICULTY = numberEnv('POW_DIFFICULTY', 14);
+const CHALLENGE = Deno.env.get('SUBMISSION_CHALLENGE') ?? 'proof_of_work';
+
+interface SubmitRequest {
+  surveyId: string;
+  versionId: string;
+  answers: Record<string, unknown>;
+  resumeToken?: string | null;
+  // Random per response and kept across retries; see submit_response.
+  submissionId?: string;
+  protection?: {
+    deviceToken?: string;
+    honeypot?: string;
+    // `id` is the challenge issued by start-submission.
+    challenge?: { id?: string | null; provider?: string; solution?: string | null };
+  };
+}
+
+type QualityFlag = 'honeypot' | 'too_fast' | 'challenge_failed' | 'rate_limited' | 'duplicate_device';
+
+const leadingZeroBits = (bytes: Uint8Array) => {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+};
+
+// One verifier per challenge provider the client can be configured with.
+const challengeVerifiers: Record<string, (seed: string, solution: string | null) => Promise<boolean>> = {
+  none: async () => true,
+  proof_of_work: async (seed, solution) =>
+    solution !== null && leadingZeroBits(await sha256(`${seed}:${solution}`)) >= POW_DIFFICULTY
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let body: SubmitRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (!body.surveyId || !body.versionId) {
+    return json({ error: 'surveyId and versionId are required' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // A retry of a response that was already saved, e.g. after the reply was
+  // lost: return the saved id without counting another attempt.
+  if (body.submissionId) {
+    const { data: existing } = await supabase
+      .from('telegram_survey')
+      .select('id')
+      .eq('submission_id', body.submissionId)
+      .maybeSingle();
+    if (existing) return json({ id: existing.id });
+  }
+
+  const protection = body.protection ?? {};
+  const deviceToken = protection.deviceToken || null;
+
+  const ipHash = await clientIpHash(req);
+
+  const { data: attempts, error: attemptError } = await supabase.rpc('register_submission_attempt', {
+    _survey_id: body.surveyId,
+    _ip_hash: ipHash,
+    _device_token: deviceToken
+  });
+
+  if (attemptError) {
+    console.error('Error registering submission attempt:', attemptError);
+    return json({ error: 'Could not submit the response' }, 500);
+  }
+
+  const [attempt] = attempts ?? [];
+  if (!attempt) {
+    console.error('register_submission_attempt returned no row');
+    return json({ error: 'Could not submit the response' }, 500);
+  }
+
+  const { ip_attempts: ipAttempts, device_responses: deviceResponses } = attempt;
+
+  if (ipAttempts > HARD_RATE_LIMIT) {
+    return json({ error: 'Too many submissions, please try again later' }, 429);
+  }
+
+  // The challenge from start-submission says when the respondent opened the
+  // survey. It only counts once its proof of work checks out, and claiming
+  // it means it can't be reused for another response.
+  const challengeId = protection.challenge?.id ?? null;
+  const verify = challengeVerifiers[CHALLENGE];
+  const solved = !!challengeId && protection.challenge?.provider === CHALLENGE && !!verify && await verify(
+    `${body.surveyId}:${challengeId}`,
+    protection.challenge?.solution ?? null
+  );
+
+  let issuedAt: string | null = null;
+  if (solved) {
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_submission_challenge', {
+      _challenge_id: challengeId,
+      _survey_id: body.surveyId,
+      _submission_id: body.submissionId ?? null
+    });
+    if (claimError) console.error('Error claiming submission challenge:', claimError);
+    issuedAt = claimed ?? null;
+  }
+  const challengePassed = issuedAt !== null;
+
+  // Resumed drafts were started when the draft was first saved.
+  let startedAt = issuedAt ? Date.parse(issuedAt) : NaN;
+  if (body.resumeToken) {
+    const { data: draft } = await supabase
+      .from('survey_drafts')
+      .select('created_at')
+      .eq('resume_token', body.resumeToken)
+      .maybeSingle();
+    if (draft) startedAt = Math.min(startedAt || Infinity, Date.parse(draft.created_at));
+  }
+  const completionSeconds = (Date.now() - startedAt) / 1000;
+
+  // The first matching check, most certain first, decides the flag.
+  const checks: [QualityFlag, boolean][] = [
+    ['honeypot', !!protection.honeypot],
+    ['challenge_failed', !challengePassed],
+    ['too_fast', !(completionSeconds >= MIN_COMPLETION_SECONDS)],
+    ['rate_limited', ipAttempts > RATE_LIMIT],
+    ['duplicate_device', deviceResponses > 0]
+  ];
+  const qualityFlag = checks.find(([, failed]) => failed)?.[0] ?? null;
+
+  const { data, error } = await supabase.rpc('submit_response', {
+    _survey_id: body.surveyId,
+    _survey_version_id: body.versionId,
+    _answers: body.answers,
+    _resume_token: body.resumeToken ?? undefined,
+    _quality_flag: qualityFlag,
+    _device_token: deviceToken,
+    _completion_seconds: Number.isFinite(completionSeconds) ? Math.round(completionSeconds) : null,
+    _submission_id: body.submissionId ?? null
+  });
+
+  if (error) {
+    console.error('Error submitting response:', error);
+    return json({ error: error.message }, error.code === 'P0002' ? 404 : 400);
+  }
+
+  // Field errors come back with a 200 so the form can show them inline.
+  return json(data);
+});
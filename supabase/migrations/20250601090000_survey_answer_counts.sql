@@ -0,0 +1,39 @@
+-- Aggregated answer counts over the full telegram_survey table.
+-- The dashboard charts read from this instead of reducing over the
+-- currently loaded page of responses.
+create or replace function public.get_answer_counts()
+returns table (question text, answer text, total bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select 'age_group', age_group, count(*)
+  from telegram_survey
+  group by age_group
+
+  union all
+
+  select 'usage_duration', usage_duration, count(*)
+  from telegram_survey
+  group by usage_duration
+
+  union all
+
+  select 'recommend_telegram', recommend_telegram, count(*)
+  from telegram_survey
+  group by recommend_telegram
+
+  union all
+
+  select 'usage_reason', reason, count(*)
+  from telegram_survey, unnest(usage_reason) as reason
+  group by reason
+
+  union all
+
+  select 'content_preference', content, count(*)
+  from telegram_survey, unnest(content_preference) as content
+  group by content
+$$;
+
+grant execute on function public.get_answer_counts() to anon, authenticated;
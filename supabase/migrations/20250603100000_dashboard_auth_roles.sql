@@ -0,0 +1,120 @@
+-- Roles for dashboard access. Accounts are created through Supabase Auth and
+-- granted a role by an admin; the public survey stays anonymous.
+create type public.app_role as enum ('viewer', 'analyst', 'admin');
+
+create table public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.app_role not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, role)
+);
+
+alter table public.user_roles enable row level security;
+
+-- Security definer so policies can check roles without recursing into
+-- user_roles' own RLS.
+create or replace function public.has_role(_user_id uuid, _role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from user_roles
+    where user_id = _user_id
+      and role = _role
+  )
+$$;
+
+create or replace function public.has_any_role(_user_id uuid, _roles public.app_role[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from user_roles
+    where user_id = _user_id
+      and role = any (_roles)
+  )
+$$;
+
+create policy "Users can read their own roles"
+  on public.user_roles for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Admins can manage roles"
+  on public.user_roles for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- Responses: the anon key may only insert. Reading raw rows (names and
+-- free text included) is limited to analysts and admins.
+alter table public.telegram_survey enable row level security;
+
+revoke select, update, delete on public.telegram_survey from anon;
+
+create policy "Anyone can submit a response"
+  on public.telegram_survey for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Analysts can read responses"
+  on public.telegram_survey for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['analyst', 'admin']::public.app_role[]));
+
+-- Aggregates are visible to every dashboard role, viewers included, so the
+-- function reads past RLS itself and checks the caller's role up front.
+create or replace function public.get_answer_counts()
+returns table (question text, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+    select 'age_group', s.age_group, count(*)
+    from telegram_survey s
+    group by s.age_group
+
+    union all
+
+    select 'usage_duration', s.usage_duration, count(*)
+    from telegram_survey s
+    group by s.usage_duration
+
+    union all
+
+    select 'recommend_telegram', s.recommend_telegram, count(*)
+    from telegram_survey s
+    group by s.recommend_telegram
+
+    union all
+
+    select 'usage_reason', reason, count(*)
+    from telegram_survey s, unnest(s.usage_reason) as reason
+    group by reason
+
+    union all
+
+    select 'content_preference', content, count(*)
+    from telegram_survey s, unnest(s.content_preference) as content
+    group by content;
+end;
+$$;
+
+revoke execute on function public.get_answer_counts() from anon;
+grant execute on function public.get_answer_counts() to authenticated;
@@ -0,0 +1,139 @@
+-- Survey definitions live in the database so new questionnaires can be
+-- launched without a deploy. `definition` follows the shape validated by
+-- surveyDefinitionSchema in src/lib/survey-schema.ts.
+create table public.surveys (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  title text not null,
+  definition jsonb not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.surveys enable row level security;
+
+create policy "Anyone can read active surveys"
+  on public.surveys for select
+  to anon, authenticated
+  using (is_active or public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can manage surveys"
+  on public.surveys for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- Answers are stored keyed by question id so any definition can be saved.
+-- The original fixed columns stay (now nullable) and keep being filled for
+-- questions whose id matches a column name.
+alter table public.telegram_survey
+  add column answers jsonb not null default '{}'::jsonb,
+  alter column age_group drop not null,
+  alter column usage_duration drop not null,
+  alter column usage_reason drop not null,
+  alter column content_preference drop not null,
+  alter column recommend_telegram drop not null;
+
+update public.telegram_survey
+set answers = jsonb_strip_nulls(jsonb_build_object(
+  'name', name,
+  'age_group', age_group,
+  'usage_duration', usage_duration,
+  'usage_reason', to_jsonb(usage_reason),
+  'content_preference', to_jsonb(content_preference),
+  'regular_bots_or_channels', regular_bots_or_channels,
+  'recommend_telegram', recommend_telegram,
+  'improvement_suggestions', improvement_suggestions
+));
+
+insert into public.surveys (slug, title, definition)
+values (
+  'telegram',
+  'Telegram User Survey',
+  $json$
+  {
+    "title": "Telegram User Survey",
+    "description": "Help us understand how you use Telegram",
+    "questions": [
+      {
+        "id": "name",
+        "type": "text",
+        "title": "Name (optional)",
+        "required": false,
+        "placeholder": "Enter your name"
+      },
+      {
+        "id": "age_group",
+        "type": "single_choice",
+        "title": "Age Group",
+        "required": true,
+        "options": ["Under 18", "18–24", "25–34", "35–44", "45+"]
+      },
+      {
+        "id": "usage_duration",
+        "type": "single_choice",
+        "title": "How long have you been using Telegram?",
+        "required": true,
+        "options": ["Less than 6 months", "6 months – 1 year", "1–3 years", "More than 3 years"]
+      },
+      {
+        "id": "usage_reason",
+        "type": "multiple_choice",
+        "title": "Why do you use Telegram the most?",
+        "required": true,
+        "allowOther": true,
+        "options": [
+          "To join groups and channels",
+          "For privacy and security",
+          "For cloud-based messaging",
+          "To download movies, web series, or books",
+          "For business/marketing purposes",
+          "To chat with friends",
+          "For bots and automation"
+        ]
+      },
+      {
+        "id": "content_preference",
+        "type": "multiple_choice",
+        "title": "Which content do you like more on Telegram?",
+        "required": true,
+        "columns": 2,
+        "options": [
+          "📽 Movies & Web Series",
+          "📚 E-books & Study Material",
+          "🎓 Educational Content",
+          "📰 News & Updates",
+          "💸 Job Alerts",
+          "🎮 Gaming Tips",
+          "💬 Motivational Quotes",
+          "🤖 Useful Bots",
+          "📱 Tech Updates",
+          "🎧 Music & Podcasts"
+        ]
+      },
+      {
+        "id": "regular_bots_or_channels",
+        "type": "text",
+        "title": "Do you use any Telegram bots or channels regularly?",
+        "required": false,
+        "placeholder": "e.g., @weatherbot, @newsbot, etc."
+      },
+      {
+        "id": "recommend_telegram",
+        "type": "single_choice",
+        "title": "Would you recommend Telegram to others?",
+        "required": true,
+        "options": ["Yes", "No", "Maybe"]
+      },
+      {
+        "id": "improvement_suggestions",
+        "type": "long_text",
+        "title": "Any suggestions to improve Telegram?",
+        "required": false,
+        "placeholder": "Share your thoughts and suggestions..."
+      }
+    ]
+  }
+  $json$::jsonb
+);
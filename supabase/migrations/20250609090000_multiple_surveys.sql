@@ -0,0 +1,72 @@
+-- Responses belong to a survey. Everything collected so far was the
+-- Telegram survey.
+alter table public.telegram_survey
+  add column survey_id uuid references public.surveys (id) on delete restrict;
+
+update public.telegram_survey
+set survey_id = (select id from public.surveys where slug = 'telegram');
+
+alter table public.telegram_survey
+  alter column survey_id set not null;
+
+create index telegram_survey_survey_id_submitted_at_idx
+  on public.telegram_survey (survey_id, submitted_at desc);
+
+-- Counts are now computed from the generic `answers` column for every
+-- choice question in the survey's definition, instead of fixed columns.
+drop function public.get_answer_counts();
+
+create or replace function public.get_answer_counts(_survey_id uuid)
+returns table (question text, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+    with choice_questions as (
+      select q ->> 'id' as id
+      from surveys s, jsonb_array_elements(s.definition -> 'questions') as q
+      where s.id = _survey_id
+        and q ->> 'type' in ('single_choice', 'multiple_choice')
+    )
+    select cq.id, a.answer, count(*)
+    from telegram_survey r
+    join choice_questions cq on r.answers ? cq.id
+    cross join lateral (
+      select jsonb_array_elements_text(r.answers -> cq.id)
+      where jsonb_typeof(r.answers -> cq.id) = 'array'
+      union all
+      select r.answers ->> cq.id
+      where jsonb_typeof(r.answers -> cq.id) = 'string'
+    ) as a (answer)
+    where r.survey_id = _survey_id
+    group by cq.id, a.answer;
+end;
+$$;
+
+create or replace function public.get_response_total(_survey_id uuid)
+returns bigint
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return (select count(*) from telegram_survey where survey_id = _survey_id);
+end;
+$$;
+
+revoke execute on function public.get_answer_counts(uuid) from anon;
+revoke execute on function public.get_response_total(uuid) from anon;
+grant execute on function public.get_answer_counts(uuid) to authenticated;
+grant execute on function public.get_response_total(uuid) to authenticated;
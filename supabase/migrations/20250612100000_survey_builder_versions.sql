@@ -0,0 +1,98 @@
+-- Every save from the survey builder is kept as a numbered version.
+-- surveys.definition always mirrors the latest version.
+create table public.survey_versions (
+  id uuid primary key default gen_random_uuid(),
+  survey_id uuid not null references public.surveys (id) on delete cascade,
+  version integer not null,
+  definition jsonb not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (survey_id, version)
+);
+
+alter table public.survey_versions enable row level security;
+
+create policy "Admins can read survey versions"
+  on public.survey_versions for select
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'));
+
+insert into public.survey_versions (survey_id, version, definition)
+select id, 1, definition
+from public.surveys;
+
+create or replace function public.save_survey_version(_survey_id uuid, _title text, _definition jsonb)
+returns public.survey_versions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  saved survey_versions;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  -- Serialise concurrent saves of the same survey.
+  perform 1 from surveys where id = _survey_id for update;
+  if not found then
+    raise exception 'survey % not found', _survey_id using errcode = 'P0002';
+  end if;
+
+  insert into survey_versions (survey_id, version, definition, created_by)
+  values (
+    _survey_id,
+    coalesce((select max(version) from survey_versions where survey_id = _survey_id), 0) + 1,
+    _definition,
+    auth.uid()
+  )
+  returning * into saved;
+
+  update surveys
+  set title = _title,
+      definition = _definition,
+      updated_at = now()
+  where id = _survey_id;
+
+  return saved;
+end;
+$$;
+
+revoke execute on function public.save_survey_version(uuid, text, jsonb) from anon;
+grant execute on function public.save_survey_version(uuid, text, jsonb) to authenticated;
+
+-- Rating and NPS answers are numbers; count them alongside choice answers.
+create or replace function public.get_answer_counts(_survey_id uuid)
+returns table (question text, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+    with chart_questions as (
+      select q ->> 'id' as id
+      from surveys s, jsonb_array_elements(s.definition -> 'questions') as q
+      where s.id = _survey_id
+        and q ->> 'type' in ('single_choice', 'multiple_choice', 'rating', 'nps')
+    )
+    select cq.id, a.answer, count(*)
+    from telegram_survey r
+    join chart_questions cq on r.answers ? cq.id
+    cross join lateral (
+      select jsonb_array_elements_text(r.answers -> cq.id)
+      where jsonb_typeof(r.answers -> cq.id) = 'array'
+      union all
+      select r.answers ->> cq.id
+      where jsonb_typeof(r.answers -> cq.id) in ('string', 'number')
+    ) as a (answer)
+    where r.survey_id = _survey_id
+    group by cq.id, a.answer;
+end;
+$$;
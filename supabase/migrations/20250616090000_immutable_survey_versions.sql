@@ -0,0 +1,320 @@
+-- Immutable survey versions with stable option ids.
+--
+-- Options (and matrix rows) become {"id", "label"} objects so labels can be
+-- reworded without splitting historical answers. Answers store option ids.
+-- An option may list older ids in "replaces" so results from earlier
+-- versions can be mapped onto the current one.
+
+create function pg_temp.option_key(label text)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(
+    nullif(trim(both '_' from regexp_replace(lower(label), '[^a-z0-9]+', '_', 'g')), ''),
+    'option'
+  )
+$$;
+
+create function pg_temp.keyed_items(items jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object('id', pg_temp.option_key(item #>> '{}'), 'label', item #>> '{}')
+      order by position
+    ),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(items) with ordinality as t (item, position)
+$$;
+
+create function pg_temp.keyed_definition(definition jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_set(
+    definition,
+    '{questions}',
+    (
+      select jsonb_agg(
+        q
+          || case when q ? 'options' then jsonb_build_object('options', pg_temp.keyed_items(q -> 'options')) else '{}'::jsonb end
+          || case when q ? 'rows' then jsonb_build_object('rows', pg_temp.keyed_items(q -> 'rows')) else '{}'::jsonb end
+        order by position
+      )
+      from jsonb_array_elements(definition -> 'questions') with ordinality as t (q, position)
+    )
+  )
+$$;
+
+-- Rewrites one stored answer from labels to option ids. Free text that was
+-- merged into a multi-select by the original form becomes the "other"
+-- option plus its text under "<question>:other".
+create function pg_temp.keyed_answers(answers jsonb, definition jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  q jsonb;
+  qid text;
+  value jsonb;
+  labels jsonb;
+  keyed jsonb;
+  element text;
+  other_text text;
+begin
+  for q in select * from jsonb_array_elements(definition -> 'questions') loop
+    qid := q ->> 'id';
+    value := answers -> qid;
+    continue when value is null or not (q ? 'options');
+
+    select coalesce(jsonb_object_agg(item #>> '{}', pg_temp.option_key(item #>> '{}')), '{}'::jsonb)
+    into labels
+    from jsonb_array_elements(q -> 'options') as item;
+
+    if jsonb_typeof(value) = 'string' then
+      answers := jsonb_set(answers, array[qid], to_jsonb(coalesce(labels ->> (value #>> '{}'), value #>> '{}')));
+    elsif jsonb_typeof(value) = 'array' then
+      keyed := '[]'::jsonb;
+      other_text := null;
+      for element in select jsonb_array_elements_text(value) loop
+        if labels ? element then
+          keyed := keyed || to_jsonb(labels ->> element);
+        elsif element = 'Other' or coalesce((q ->> 'allowOther')::boolean, false) then
+          if not keyed @> '["other"]'::jsonb then
+            keyed := keyed || '"other"'::jsonb;
+          end if;
+          if element <> 'Other' then
+            other_text := concat_ws(', ', other_text, element);
+          end if;
+        else
+          keyed := keyed || to_jsonb(element);
+        end if;
+      end loop;
+      answers := jsonb_set(answers, array[qid], keyed);
+      if other_text is not null and not answers ? (qid || ':other') then
+        answers := answers || jsonb_build_object(qid || ':other', other_text);
+      end if;
+    elsif jsonb_typeof(value) = 'object' then
+      select coalesce(jsonb_object_agg(
+        pg_temp.option_key(row_label),
+        coalesce(labels ->> (column_label #>> '{}'), column_label #>> '{}')
+      ), '{}'::jsonb)
+      into keyed
+      from jsonb_each(value) as t (row_label, column_label);
+      answers := jsonb_set(answers, array[qid], keyed);
+    end if;
+  end loop;
+
+  return answers;
+end;
+$$;
+
+-- Answers are keyed against the definition they were given under, which
+-- for everything so far is version 1.
+update public.telegram_survey r
+set answers = pg_temp.keyed_answers(r.answers, v.definition)
+from public.survey_versions v
+where v.survey_id = r.survey_id
+  and v.version = 1;
+
+update public.survey_versions
+set definition = pg_temp.keyed_definition(definition);
+
+update public.surveys
+set definition = pg_temp.keyed_definition(definition);
+
+-- Each survey points at its latest version, and each response at the
+-- version it was answered against.
+alter table public.surveys
+  add column current_version_id uuid references public.survey_versions (id);
+
+update public.surveys s
+set current_version_id = (
+  select id
+  from public.survey_versions v
+  where v.survey_id = s.id
+  order by v.version desc
+  limit 1
+);
+
+alter table public.telegram_survey
+  add column survey_version_id uuid references public.survey_versions (id) on delete restrict;
+
+update public.telegram_survey r
+set survey_version_id = (
+  select id
+  from public.survey_versions v
+  where v.survey_id = r.survey_id
+    and v.version = 1
+);
+
+alter table public.telegram_survey
+  alter column survey_version_id set not null;
+
+-- Responses default to the survey's current version, and may only name a
+-- version that belongs to the same survey.
+create or replace function public.set_response_survey_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.survey_version_id is null then
+    select current_version_id into new.survey_version_id
+    from surveys
+    where id = new.survey_id;
+  end if;
+
+  if not exists (
+    select 1
+    from survey_versions
+    where id = new.survey_version_id
+      and survey_id = new.survey_id
+  ) then
+    raise exception 'survey version does not belong to survey %', new.survey_id
+      using errcode = '23503';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger telegram_survey_set_survey_version
+  before insert on public.telegram_survey
+  for each row execute function public.set_response_survey_version();
+
+create or replace function public.prevent_survey_version_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'survey versions are immutable; save a new version instead'
+    using errcode = '55000';
+end;
+$$;
+
+create trigger survey_versions_immutable
+  before update on public.survey_versions
+  for each row execute function public.prevent_survey_version_update();
+
+-- Every dashboard role needs old definitions to label older answers.
+drop policy "Admins can read survey versions" on public.survey_versions;
+
+create policy "Dashboard roles can read survey versions"
+  on public.survey_versions for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]));
+
+create or replace function public.save_survey_version(_survey_id uuid, _title text, _definition jsonb)
+returns public.survey_versions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  saved survey_versions;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  -- Serialise concurrent saves of the same survey.
+  perform 1 from surveys where id = _survey_id for update;
+  if not found then
+    raise exception 'survey % not found', _survey_id using errcode = 'P0002';
+  end if;
+
+  insert into survey_versions (survey_id, version, definition, created_by)
+  values (
+    _survey_id,
+    coalesce((select max(version) from survey_versions where survey_id = _survey_id), 0) + 1,
+    _definition,
+    auth.uid()
+  )
+  returning * into saved;
+
+  update surveys
+  set title = _title,
+      definition = _definition,
+      current_version_id = saved.id,
+      updated_at = now()
+  where id = _survey_id;
+
+  return saved;
+end;
+$$;
+
+-- Counts can now be limited to one version. Matching across versions
+-- (via "replaces") happens in the dashboard, which knows every definition.
+drop function public.get_answer_counts(uuid);
+
+create or replace function public.get_answer_counts(_survey_id uuid, _survey_version_id uuid default null)
+returns table (question text, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+    with chart_questions as (
+      select distinct q ->> 'id' as id
+      from survey_versions v, jsonb_array_elements(v.definition -> 'questions') as q
+      where v.survey_id = _survey_id
+        and (_survey_version_id is null or v.id = _survey_version_id)
+        and q ->> 'type' in ('single_choice', 'multiple_choice', 'rating', 'nps')
+    )
+    select cq.id, a.answer, count(*)
+    from telegram_survey r
+    join chart_questions cq on r.answers ? cq.id
+    cross join lateral (
+      select jsonb_array_elements_text(r.answers -> cq.id)
+      where jsonb_typeof(r.answers -> cq.id) = 'array'
+      union all
+      select r.answers ->> cq.id
+      where jsonb_typeof(r.answers -> cq.id) in ('string', 'number')
+    ) as a (answer)
+    where r.survey_id = _survey_id
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+    group by cq.id, a.answer;
+end;
+$$;
+
+drop function public.get_response_total(uuid);
+
+create or replace function public.get_response_total(_survey_id uuid, _survey_version_id uuid default null)
+returns bigint
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return (
+    select count(*)
+    from telegram_survey
+    where survey_id = _survey_id
+      and (_survey_version_id is null or survey_version_id = _survey_version_id)
+  );
+end;
+$$;
+
+revoke execute on function public.get_answer_counts(uuid, uuid) from anon;
+revoke execute on function public.get_response_total(uuid, uuid) from anon;
+grant execute on function public.get_answer_counts(uuid, uuid) to authenticated;
+grant execute on function public.get_response_total(uuid, uuid) to authenticated;
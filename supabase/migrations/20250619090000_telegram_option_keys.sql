@@ -0,0 +1,118 @@
+-- Curated option keys for the Telegram survey.
+--
+-- Labels no longer carry emoji: icons are a separate field rendered next to
+-- the label. The new keys are published as a new survey version whose
+-- options list the ids they replace, so answers given under version 1 are
+-- still counted under the right option.
+
+create temporary table telegram_option_keys (
+  question text not null,
+  label text not null,
+  legacy_id text not null,
+  key text not null,
+  new_label text not null,
+  icon text
+) on commit drop;
+
+insert into telegram_option_keys (question, label, legacy_id, key, new_label, icon) values
+  ('age_group', 'Under 18', 'under_18', 'under_18', 'Under 18', null),
+  ('age_group', '18–24', '18_24', 'age_18_24', '18–24', null),
+  ('age_group', '25–34', '25_34', 'age_25_34', '25–34', null),
+  ('age_group', '35–44', '35_44', 'age_35_44', '35–44', null),
+  ('age_group', '45+', '45', 'age_45_plus', '45+', null),
+  ('usage_duration', 'Less than 6 months', 'less_than_6_months', 'under_6_months', 'Less than 6 months', null),
+  ('usage_duration', '6 months – 1 year', '6_months_1_year', '6_to_12_months', '6 months – 1 year', null),
+  ('usage_duration', '1–3 years', '1_3_years', '1_to_3_years', '1–3 years', null),
+  ('usage_duration', 'More than 3 years', 'more_than_3_years', 'over_3_years', 'More than 3 years', null),
+  ('usage_reason', 'To join groups and channels', 'to_join_groups_and_channels', 'groups_channels', 'To join groups and channels', null),
+  ('usage_reason', 'For privacy and security', 'for_privacy_and_security', 'privacy_security', 'For privacy and security', null),
+  ('usage_reason', 'For cloud-based messaging', 'for_cloud_based_messaging', 'cloud_messaging', 'For cloud-based messaging', null),
+  ('usage_reason', 'To download movies, web series, or books', 'to_download_movies_web_series_or_books', 'downloads', 'To download movies, web series, or books', null),
+  ('usage_reason', 'For business/marketing purposes', 'for_business_marketing_purposes', 'business_marketing', 'For business/marketing purposes', null),
+  ('usage_reason', 'To chat with friends', 'to_chat_with_friends', 'chat_friends', 'To chat with friends', null),
+  ('usage_reason', 'For bots and automation', 'for_bots_and_automation', 'bots_automation', 'For bots and automation', null),
+  ('content_preference', '📽 Movies & Web Series', 'movies_web_series', 'movies_series', 'Movies & Web Series', '📽'),
+  ('content_preference', '📚 E-books & Study Material', 'e_books_study_material', 'ebooks', 'E-books & Study Material', '📚'),
+  ('content_preference', '🎓 Educational Content', 'educational_content', 'education', 'Educational Content', '🎓'),
+  ('content_preference', '📰 News & Updates', 'news_updates', 'news', 'News & Updates', '📰'),
+  ('content_preference', '💸 Job Alerts', 'job_alerts', 'job_alerts', 'Job Alerts', '💸'),
+  ('content_preference', '🎮 Gaming Tips', 'gaming_tips', 'gaming_tips', 'Gaming Tips', '🎮'),
+  ('content_preference', '💬 Motivational Quotes', 'motivational_quotes', 'motivational_quotes', 'Motivational Quotes', '💬'),
+  ('content_preference', '🤖 Useful Bots', 'useful_bots', 'useful_bots', 'Useful Bots', '🤖'),
+  ('content_preference', '📱 Tech Updates', 'tech_updates', 'tech_updates', 'Tech Updates', '📱'),
+  ('content_preference', '🎧 Music & Podcasts', 'music_podcasts', 'music_podcasts', 'Music & Podcasts', '🎧'),
+  ('recommend_telegram', 'Yes', 'yes', 'yes', 'Yes', null),
+  ('recommend_telegram', 'No', 'no', 'no', 'No', null),
+  ('recommend_telegram', 'Maybe', 'maybe', 'maybe', 'Maybe', null);
+
+-- Publish the re-keyed definition as the next Telegram version.
+with telegram as (
+  select id, definition
+  from public.surveys
+  where slug = 'telegram'
+),
+rekeyed as (
+  select jsonb_set(
+    t.definition,
+    '{questions}',
+    (
+      select jsonb_agg(
+        case
+          when q ? 'options' then jsonb_set(q, '{options}', (
+            select jsonb_agg(
+              jsonb_strip_nulls(jsonb_build_object(
+                'id', coalesce(k.key, o ->> 'id'),
+                'label', coalesce(k.new_label, o ->> 'label'),
+                'icon', k.icon,
+                'replaces', case when k.key is distinct from k.legacy_id then jsonb_build_array(k.legacy_id) end
+              ))
+              order by o_position
+            )
+            from jsonb_array_elements(q -> 'options') with ordinality as opts (o, o_position)
+            left join telegram_option_keys k
+              on k.question = q ->> 'id'
+             and k.legacy_id = o ->> 'id'
+          ))
+          else q
+        end
+        order by q_position
+      )
+      from jsonb_array_elements(t.definition -> 'questions') with ordinality as qs (q, q_position)
+    )
+  ) as definition,
+  t.id as survey_id
+  from telegram t
+),
+saved as (
+  insert into public.survey_versions (survey_id, version, definition)
+  select r.survey_id,
+         (select max(version) + 1 from public.survey_versions where survey_id = r.survey_id),
+         r.definition
+  from rekeyed r
+  returning id, survey_id, definition
+)
+update public.surveys s
+set definition = saved.definition,
+    current_version_id = saved.id,
+    updated_at = now()
+from saved
+where s.id = saved.survey_id;
+
+-- The original fixed columns switch from display labels to the same keys.
+-- Free text the original form stored in place of "Other" becomes "other";
+-- the text itself is already kept in answers under "usage_reason:other".
+update public.telegram_survey r
+set
+  age_group = coalesce((select key from telegram_option_keys where question = 'age_group' and label = r.age_group), r.age_group),
+  usage_duration = coalesce((select key from telegram_option_keys where question = 'usage_duration' and label = r.usage_duration), r.usage_duration),
+  recommend_telegram = coalesce((select key from telegram_option_keys where question = 'recommend_telegram' and label = r.recommend_telegram), r.recommend_telegram),
+  usage_reason = (
+    select array_agg(distinct coalesce(k.key, 'other'))
+    from unnest(r.usage_reason) as reason
+    left join telegram_option_keys k on k.question = 'usage_reason' and k.label = reason
+  ),
+  content_preference = (
+    select array_agg(coalesce(k.key, content) order by position)
+    from unnest(r.content_preference) with ordinality as c (content, position)
+    left join telegram_option_keys k on k.question = 'content_preference' and k.label = c.content
+  );
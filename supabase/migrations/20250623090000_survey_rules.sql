@@ -0,0 +1,216 @@
+-- Conditional logic between questions. A definition's "rules" show, hide or
+-- require questions, or skip sections, based on earlier answers. The same
+-- evaluation runs in the renderer (src/lib/survey-rules.ts) and here, so a
+-- response can't carry answers to questions the respondent never saw or
+-- leave out one a rule made required.
+
+create or replace function public.survey_answer_present(_answer jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select _answer is not null and case jsonb_typeof(_answer)
+    when 'null' then false
+    when 'string' then btrim(_answer #>> '{}') <> ''
+    when 'array' then jsonb_array_length(_answer) > 0
+    when 'object' then _answer <> '{}'::jsonb
+    else true
+  end;
+$$;
+
+create or replace function public.survey_answer_number(_value jsonb)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when jsonb_typeof(_value) = 'number' then (_value #>> '{}')::numeric
+    when jsonb_typeof(_value) = 'string' and btrim(_value #>> '{}') ~ '^-?[0-9]+(\.[0-9]+)?$'
+      then btrim(_value #>> '{}')::numeric
+  end;
+$$;
+
+create or replace function public.survey_condition_matches(_condition jsonb, _answers jsonb)
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  answer jsonb := _answers -> (_condition ->> 'question');
+  expected text := _condition ->> 'value';
+  present boolean := public.survey_answer_present(_answers -> (_condition ->> 'question'));
+begin
+  case _condition ->> 'operator'
+    when 'answered' then
+      return present;
+    when 'not_answered' then
+      return not present;
+    when 'equals' then
+      return present and answer #>> '{}' = expected;
+    when 'not_equals' then
+      return not present or answer #>> '{}' <> expected;
+    when 'includes' then
+      if jsonb_typeof(answer) = 'array' then
+        return answer ? expected;
+      end if;
+      return present and answer #>> '{}' = expected;
+    when 'not_includes' then
+      if jsonb_typeof(answer) = 'array' then
+        return not answer ? expected;
+      end if;
+      return not present or answer #>> '{}' <> expected;
+    when 'greater_than' then
+      return coalesce(public.survey_answer_number(answer) > public.survey_answer_number(_condition -> 'value'), false);
+    when 'less_than' then
+      return coalesce(public.survey_answer_number(answer) < public.survey_answer_number(_condition -> 'value'), false);
+    else
+      return false;
+  end case;
+end;
+$$;
+
+-- Mirrors evaluateRules: answers to hidden questions are ignored while
+-- evaluating, repeating until the hidden set stops changing.
+create or replace function public.evaluate_survey_rules(
+  _definition jsonb,
+  _answers jsonb,
+  out hidden text[],
+  out required text[]
+)
+language plpgsql
+immutable
+as $$
+declare
+  rule jsonb;
+  visible jsonb;
+  matches boolean;
+  shown text[];
+  next_hidden text[];
+  skipped text[];
+  from_index integer;
+  to_index integer;
+  passes integer := 0;
+begin
+  hidden := '{}';
+
+  loop
+    select coalesce(jsonb_object_agg(key, value), '{}'::jsonb) into visible
+    from jsonb_each(_answers)
+    where split_part(key, ':', 1) <> all(hidden);
+
+    shown := '{}';
+    next_hidden := '{}';
+    required := '{}';
+    skipped := '{}';
+
+    for rule in select value from jsonb_array_elements(coalesce(_definition -> 'rules', '[]'::jsonb)) loop
+      if rule ->> 'match' = 'any' then
+        select coalesce(bool_or(public.survey_condition_matches(c.value, visible)), false) into matches
+        from jsonb_array_elements(rule -> 'when') c;
+      else
+        select coalesce(bool_and(public.survey_condition_matches(c.value, visible)), false) into matches
+        from jsonb_array_elements(rule -> 'when') c;
+      end if;
+
+      if rule ->> 'action' = 'show' then
+        if matches then
+          shown := shown || (rule ->> 'target');
+        else
+          next_hidden := next_hidden || (rule ->> 'target');
+        end if;
+      elsif matches and rule ->> 'action' = 'hide' then
+        next_hidden := next_hidden || (rule ->> 'target');
+      elsif matches and rule ->> 'action' = 'require' then
+        required := required || (rule ->> 'target');
+      elsif matches and rule ->> 'action' = 'skip_to' then
+        -- Section positions are 1-based; questions outside a section are 0.
+        select coalesce(max(s.position), 0) into from_index
+        from jsonb_array_elements(rule -> 'when') c
+        join jsonb_array_elements(_definition -> 'questions') q on q.value ->> 'id' = c.value ->> 'question'
+        left join jsonb_array_elements(coalesce(_definition -> 'sections', '[]'::jsonb)) with ordinality s(value, position)
+          on s.value ->> 'id' = q.value ->> 'section';
+
+        select coalesce(max(s.position), 0) into to_index
+        from jsonb_array_elements(coalesce(_definition -> 'sections', '[]'::jsonb)) with ordinality s(value, position)
+        where s.value ->> 'id' = rule ->> 'target';
+
+        skipped := skipped || array(
+          select s.value ->> 'id'
+          from jsonb_array_elements(coalesce(_definition -> 'sections', '[]'::jsonb)) with ordinality s(value, position)
+          where s.position > from_index and s.position < to_index
+        );
+      end if;
+    end loop;
+
+    next_hidden := array(
+      select distinct id
+      from (
+        select unnest(next_hidden) as id
+        union
+        select q.value ->> 'id'
+        from jsonb_array_elements(_definition -> 'questions') q
+        where q.value ->> 'section' = any(skipped)
+      ) ids
+      where id <> all(shown)
+      order by id
+    );
+    required := array(select distinct id from unnest(required) id where id <> all(next_hidden) order by id);
+
+    passes := passes + 1;
+    exit when next_hidden = hidden or passes > jsonb_array_length(_definition -> 'questions');
+    hidden := next_hidden;
+  end loop;
+end;
+$$;
+
+create or replace function public.validate_response_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  definition jsonb;
+  rules record;
+  offending text;
+begin
+  select sv.definition into definition
+  from survey_versions sv
+  where sv.id = new.survey_version_id;
+
+  if definition -> 'rules' is null or jsonb_array_length(definition -> 'rules') = 0 then
+    return new;
+  end if;
+
+  select * into rules from public.evaluate_survey_rules(definition, coalesce(new.answers, '{}'::jsonb));
+
+  select split_part(key, ':', 1) into offending
+  from jsonb_each(coalesce(new.answers, '{}'::jsonb))
+  where split_part(key, ':', 1) = any(rules.hidden)
+    and public.survey_answer_present(value)
+  limit 1;
+
+  if offending is not null then
+    raise exception 'question % is hidden by the survey rules and must not be answered', offending
+      using errcode = '23514';
+  end if;
+
+  select id into offending
+  from unnest(rules.required) id
+  where not public.survey_answer_present(new.answers -> id)
+  limit 1;
+
+  if offending is not null then
+    raise exception 'question % is required by the survey rules', offending
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Triggers fire in name order, so this runs after the survey version has
+-- been filled in by telegram_survey_set_survey_version.
+create trigger telegram_survey_validate_rules
+  before insert on public.telegram_survey
+  for each row execute function public.validate_response_rules();
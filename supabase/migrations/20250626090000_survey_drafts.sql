@@ -0,0 +1,146 @@
+-- Partially completed surveys. The survey page autosaves answers here under a
+-- random resume token, which is the only way to read a draft back, so
+-- respondents can continue on another device via a resume link. Drafts that
+-- never get submitted show up on the dashboard as abandonment.
+
+create table public.survey_drafts (
+  id uuid primary key default gen_random_uuid(),
+  survey_id uuid not null references public.surveys(id) on delete cascade,
+  survey_version_id uuid not null references public.survey_versions(id),
+  resume_token uuid not null unique default gen_random_uuid(),
+  answers jsonb not null default '{}'::jsonb,
+  last_step integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index survey_drafts_survey_id_idx on public.survey_drafts (survey_id);
+
+alter table public.survey_drafts enable row level security;
+
+-- Respondents only go through the functions below; analysts can read drafts
+-- the same way they read submitted responses.
+create policy "Analysts can read survey drafts"
+  on public.survey_drafts for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['analyst', 'admin']::public.app_role[]));
+
+create or replace function public.save_survey_draft(
+  _survey_id uuid,
+  _survey_version_id uuid,
+  _answers jsonb,
+  _last_step integer,
+  _resume_token uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  token uuid;
+begin
+  if not exists (
+    select 1
+    from survey_versions sv
+    join surveys s on s.id = sv.survey_id
+    where sv.id = _survey_version_id
+      and sv.survey_id = _survey_id
+      and s.is_active
+  ) then
+    raise exception 'survey % is not accepting responses', _survey_id using errcode = 'P0002';
+  end if;
+
+  if _resume_token is not null then
+    update survey_drafts
+    set survey_version_id = _survey_version_id,
+        answers = coalesce(_answers, '{}'::jsonb),
+        last_step = greatest(_last_step, 0),
+        updated_at = now()
+    where resume_token = _resume_token
+      and survey_id = _survey_id
+      and completed_at is null
+    returning resume_token into token;
+
+    if found then
+      return token;
+    end if;
+  end if;
+
+  insert into survey_drafts (survey_id, survey_version_id, answers, last_step)
+  values (_survey_id, _survey_version_id, coalesce(_answers, '{}'::jsonb), greatest(_last_step, 0))
+  returning resume_token into token;
+
+  return token;
+end;
+$$;
+
+create or replace function public.load_survey_draft(_resume_token uuid)
+returns table (survey_id uuid, survey_version_id uuid, answers jsonb, last_step integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select d.survey_id, d.survey_version_id, d.answers, d.last_step
+  from survey_drafts d
+  where d.resume_token = _resume_token
+    and d.completed_at is null;
+$$;
+
+create or replace function public.complete_survey_draft(_resume_token uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update survey_drafts
+  set completed_at = now(), updated_at = now()
+  where resume_token = _resume_token
+    and completed_at is null;
+$$;
+
+-- Drafts untouched for an hour count as abandoned. Each row is grouped by the
+-- last question (in survey order) the respondent answered before stopping.
+create or replace function public.get_draft_funnel(_survey_id uuid, _survey_version_id uuid default null)
+returns table (status text, last_question text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    case
+      when d.completed_at is not null then 'completed'
+      when d.updated_at < now() - interval '1 hour' then 'abandoned'
+      else 'in_progress'
+    end,
+    (
+      select q.value ->> 'id'
+      from survey_versions sv,
+        jsonb_array_elements(sv.definition -> 'questions') with ordinality q(value, position)
+      where sv.id = d.survey_version_id
+        and public.survey_answer_present(d.answers -> (q.value ->> 'id'))
+      order by q.position desc
+      limit 1
+    ),
+    count(*)
+  from survey_drafts d
+  where d.survey_id = _survey_id
+    and (_survey_version_id is null or d.survey_version_id = _survey_version_id)
+  group by 1, 2;
+end;
+$$;
+
+revoke execute on function public.get_draft_funnel(uuid, uuid) from anon;
+grant execute on function public.save_survey_draft(uuid, uuid, jsonb, integer, uuid) to anon, authenticated;
+grant execute on function public.load_survey_draft(uuid) to anon, authenticated;
+grant execute on function public.complete_survey_draft(uuid) to anon, authenticated;
+grant execute on function public.get_draft_funnel(uuid, uuid) to authenticated;
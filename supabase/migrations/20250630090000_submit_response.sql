@@ -0,0 +1,216 @@
+-- Submissions go through submit_response instead of a direct insert, so every
+-- response is checked against the definition it was answered under: unknown
+-- questions and options, required answers, value ranges and text lengths.
+-- Problems come back as {"errors": {"<question id>": "<message>"}} for the
+-- form to show next to each field; a valid response returns {"id": ...}.
+
+-- Keep in sync with DEFAULT_MAX_LENGTH and OTHER_MAX_LENGTH in
+-- src/lib/survey-schema.ts.
+create or replace function public.survey_max_length(_question jsonb)
+returns integer
+language sql
+immutable
+as $$
+  select coalesce(
+    (_question ->> 'maxLength')::integer,
+    case _question ->> 'type' when 'long_text' then 5000 else 500 end
+  );
+$$;
+
+create or replace function public.response_field_errors(_definition jsonb, _answers jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  errors jsonb := '{}'::jsonb;
+  rules record;
+  question jsonb;
+  qid text;
+  qtype text;
+  value jsonb;
+  other_text jsonb;
+  option_ids text[];
+  row_ids text[];
+  scale_min integer;
+  scale_max integer;
+  message text;
+  answer_key text;
+begin
+  if _answers is null or jsonb_typeof(_answers) <> 'object' then
+    return jsonb_build_object('_form', 'Answers must be an object keyed by question id.');
+  end if;
+
+  for answer_key in select jsonb_object_keys(_answers) loop
+    if not exists (
+      select 1
+      from jsonb_array_elements(_definition -> 'questions') q
+      where q.value ->> 'id' = answer_key
+        or (answer_key = (q.value ->> 'id') || ':other' and coalesce((q.value ->> 'allowOther')::boolean, false))
+    ) then
+      errors := errors || jsonb_build_object(split_part(answer_key, ':', 1), 'This question is not part of the survey.');
+    end if;
+  end loop;
+
+  select * into rules from public.evaluate_survey_rules(_definition, _answers);
+
+  for question in select q.value from jsonb_array_elements(_definition -> 'questions') q loop
+    qid := question ->> 'id';
+    qtype := question ->> 'type';
+    value := _answers -> qid;
+    other_text := _answers -> (qid || ':other');
+    message := null;
+
+    option_ids := array(select o.value ->> 'id' from jsonb_array_elements(coalesce(question -> 'options', '[]'::jsonb)) o);
+    if coalesce((question ->> 'allowOther')::boolean, false) then
+      option_ids := option_ids || 'other'::text;
+    end if;
+
+    if qid = any(rules.hidden) then
+      if public.survey_answer_present(value) or other_text is not null then
+        message := 'This question doesn''t apply to your other answers.';
+      end if;
+    elsif not public.survey_answer_present(value) then
+      if coalesce((question ->> 'required')::boolean, false) or qid = any(rules.required) then
+        message := case when qtype = 'multiple_choice' then 'Please select at least one option.' else 'This question is required.' end;
+      end if;
+    elsif qtype in ('text', 'long_text') then
+      if jsonb_typeof(value) <> 'string' then
+        message := 'Please enter text.';
+      elsif char_length(value #>> '{}') > public.survey_max_length(question) then
+        message := format('Please keep this under %s characters.', public.survey_max_length(question));
+      end if;
+    elsif qtype = 'single_choice' then
+      if jsonb_typeof(value) <> 'string' or not (value #>> '{}') = any(option_ids) then
+        message := 'Please choose one of the listed options.';
+      end if;
+    elsif qtype = 'multiple_choice' then
+      if jsonb_typeof(value) <> 'array' or exists (
+        select 1 from jsonb_array_elements(value) v
+        where jsonb_typeof(v.value) <> 'string' or not (v.value #>> '{}') = any(option_ids)
+      ) then
+        message := 'Please choose from the listed options.';
+      elsif (select count(distinct v) from jsonb_array_elements_text(value) v) <> jsonb_array_length(value) then
+        message := 'Each option can only be selected once.';
+      end if;
+    elsif qtype in ('rating', 'nps') then
+      scale_min := case when qtype = 'nps' then 0 else 1 end;
+      scale_max := case when qtype = 'nps' then 10 else coalesce((question ->> 'scaleMax')::integer, 5) end;
+      if jsonb_typeof(value) <> 'number'
+        or (value #>> '{}')::numeric <> trunc((value #>> '{}')::numeric)
+        or (value #>> '{}')::numeric not between scale_min and scale_max then
+        message := format('Please pick a value from %s to %s.', scale_min, scale_max);
+      end if;
+    elsif qtype = 'matrix' then
+      row_ids := array(select r.value ->> 'id' from jsonb_array_elements(coalesce(question -> 'rows', '[]'::jsonb)) r);
+      if jsonb_typeof(value) <> 'object' or exists (
+        select 1 from jsonb_each(value) e
+        where not e.key = any(row_ids)
+          or jsonb_typeof(e.value) <> 'string'
+          or not (e.value #>> '{}') = any(option_ids)
+      ) then
+        message := 'Please choose from the listed options.';
+      elsif (coalesce((question ->> 'required')::boolean, false) or qid = any(rules.required))
+        and exists (select 1 from unnest(row_ids) r where not value ? r) then
+        message := 'Please answer every row.';
+      end if;
+    end if;
+
+    if message is null and other_text is not null then
+      if not coalesce(value #>> '{}' = 'other' or (jsonb_typeof(value) = 'array' and value ? 'other'), false) then
+        message := 'Please select "Other" to describe another answer.';
+      elsif jsonb_typeof(other_text) <> 'string' or char_length(other_text #>> '{}') > 200 then
+        message := 'Please keep your "Other" answer under 200 characters.';
+      end if;
+    end if;
+
+    if message is not null then
+      errors := errors || jsonb_build_object(qid, message);
+    end if;
+  end loop;
+
+  return errors;
+end;
+$$;
+
+create or replace function public.submit_response(
+  _survey_id uuid,
+  _survey_version_id uuid,
+  _answers jsonb,
+  _resume_token uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  definition jsonb;
+  errors jsonb;
+  response_id uuid;
+begin
+  select sv.definition into definition
+  from survey_versions sv
+  join surveys s on s.id = sv.survey_id
+  where sv.id = _survey_version_id
+    and sv.survey_id = _survey_id
+    and s.is_active;
+
+  if definition is null then
+    raise exception 'survey % is not accepting responses', _survey_id using errcode = 'P0002';
+  end if;
+
+  errors := public.response_field_errors(definition, _answers);
+  if errors <> '{}'::jsonb then
+    return jsonb_build_object('errors', errors);
+  end if;
+
+  -- The original fixed columns are still filled for questions that share
+  -- their id, holding option ids like `answers`.
+  insert into telegram_survey (
+    survey_id,
+    survey_version_id,
+    answers,
+    name,
+    age_group,
+    usage_duration,
+    usage_reason,
+    content_preference,
+    regular_bots_or_channels,
+    recommend_telegram,
+    improvement_suggestions
+  )
+  values (
+    _survey_id,
+    _survey_version_id,
+    _answers,
+    _answers ->> 'name',
+    _answers ->> 'age_group',
+    _answers ->> 'usage_duration',
+    case when jsonb_typeof(_answers -> 'usage_reason') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'usage_reason')) end,
+    case when jsonb_typeof(_answers -> 'content_preference') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'content_preference')) end,
+    _answers ->> 'regular_bots_or_channels',
+    _answers ->> 'recommend_telegram',
+    _answers ->> 'improvement_suggestions'
+  )
+  returning id into response_id;
+
+  if _resume_token is not null then
+    update survey_drafts
+    set completed_at = now(), updated_at = now()
+    where resume_token = _resume_token
+      and survey_id = _survey_id
+      and completed_at is null;
+  end if;
+
+  return jsonb_build_object('id', response_id);
+end;
+$$;
+
+-- submit_response is now the only way in for respondents.
+drop policy "Anyone can submit a response" on public.telegram_survey;
+revoke insert on public.telegram_survey from anon;
+
+grant execute on function public.submit_response(uuid, uuid, jsonb, uuid) to anon, authenticated;
@@ -0,0 +1,152 @@
+-- Spam and duplicate protection. Public submissions now go through the
+-- submit-response edge function, which rate limits by IP, checks the honeypot,
+-- completion time, device token and challenge, and then calls submit_response
+-- with the service role. Suspicious responses are kept but flagged so the
+-- dashboard can filter them instead of losing data to false positives.
+
+alter table public.telegram_survey
+  add column quality_flag text
+    check (quality_flag in ('honeypot', 'too_fast', 'challenge_failed', 'rate_limited', 'duplicate_device')),
+  add column device_token text;
+
+create index telegram_survey_device_token_idx
+  on public.telegram_survey (survey_id, device_token);
+
+-- One row per call to the edge function, successful or not. IPs are stored
+-- hashed; the table is only reachable through register_submission_attempt.
+create table public.submission_attempts (
+  id bigint generated always as identity primary key,
+  survey_id uuid not null references public.surveys(id) on delete cascade,
+  ip_hash text not null,
+  device_token text,
+  created_at timestamptz not null default now()
+);
+
+create index submission_attempts_ip_hash_created_at_idx
+  on public.submission_attempts (ip_hash, created_at desc);
+
+alter table public.submission_attempts enable row level security;
+
+-- Records an attempt and returns how many attempts the IP made in the last
+-- hour (this one included) and how many responses the device already sent.
+create or replace function public.register_submission_attempt(
+  _survey_id uuid,
+  _ip_hash text,
+  _device_token text
+)
+returns table (ip_attempts bigint, device_responses bigint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into submission_attempts (survey_id, ip_hash, device_token)
+  values (_survey_id, _ip_hash, _device_token);
+
+  return query
+  select
+    (
+      select count(*)
+      from submission_attempts a
+      where a.ip_hash = _ip_hash
+        and a.created_at > now() - interval '1 hour'
+    ),
+    (
+      select count(*)
+      from telegram_survey t
+      where t.survey_id = _survey_id
+        and _device_token is not null
+        and t.device_token = _device_token
+    );
+end;
+$$;
+
+drop function public.submit_response(uuid, uuid, jsonb, uuid);
+
+create or replace function public.submit_response(
+  _survey_id uuid,
+  _survey_version_id uuid,
+  _answers jsonb,
+  _resume_token uuid default null,
+  _quality_flag text default null,
+  _device_token text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  definition jsonb;
+  errors jsonb;
+  response_id uuid;
+begin
+  select sv.definition into definition
+  from survey_versions sv
+  join surveys s on s.id = sv.survey_id
+  where sv.id = _survey_version_id
+    and sv.survey_id = _survey_id
+    and s.is_active;
+
+  if definition is null then
+    raise exception 'survey % is not accepting responses', _survey_id using errcode = 'P0002';
+  end if;
+
+  errors := public.response_field_errors(definition, _answers);
+  if errors <> '{}'::jsonb then
+    return jsonb_build_object('errors', errors);
+  end if;
+
+  -- The original fixed columns are still filled for questions that share
+  -- their id, holding option ids like `answers`.
+  insert into telegram_survey (
+    survey_id,
+    survey_version_id,
+    answers,
+    quality_flag,
+    device_token,
+    name,
+    age_group,
+    usage_duration,
+    usage_reason,
+    content_preference,
+    regular_bots_or_channels,
+    recommend_telegram,
+    improvement_suggestions
+  )
+  values (
+    _survey_id,
+    _survey_version_id,
+    _answers,
+    _quality_flag,
+    _device_token,
+    _answers ->> 'name',
+    _answers ->> 'age_group',
+    _answers ->> 'usage_duration',
+    case when jsonb_typeof(_answers -> 'usage_reason') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'usage_reason')) end,
+    case when jsonb_typeof(_answers -> 'content_preference') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'content_preference')) end,
+    _answers ->> 'regular_bots_or_channels',
+    _answers ->> 'recommend_telegram',
+    _answers ->> 'improvement_suggestions'
+  )
+  returning id into response_id;
+
+  if _resume_token is not null then
+    update survey_drafts
+    set completed_at = now(), updated_at = now()
+    where resume_token = _resume_token
+      and survey_id = _survey_id
+      and completed_at is null;
+  end if;
+
+  return jsonb_build_object('id', response_id);
+end;
+$$;
+
+-- Only the edge function (service role) may submit or count attempts.
+revoke execute on function public.submit_response(uuid, uuid, jsonb, uuid, text, text) from public, anon, authenticated;
+revoke execute on function public.register_submission_attempt(uuid, text, text) from public, anon, authenticated;
+grant execute on function public.submit_response(uuid, uuid, jsonb, uuid, text, text) to service_role;
+grant execute on function public.register_submission_attempt(uuid, text, text) to service_role;
@@ -0,0 +1,382 @@
+-- Quality scoring. Every response gets a 0-100 quality_score and the signals
+-- behind it in quality_signals:
+--   speeder          answered in under 40% of the survey's median time
+--   straight_lining  multiple choice questions with every option ticked, or
+--                    matrix questions with the same column in every row
+--   gibberish        free text that looks like keyboard mashing
+--   duplicate_text   free text identical to another response's
+-- Responses with a quality_flag from submission protection lose 50 points.
+-- Dashboards treat scores under 50 as low quality (LOW_QUALITY_SCORE in
+-- src/lib/response-quality.ts).
+
+alter table public.telegram_survey
+  add column completion_seconds integer,
+  add column quality_score smallint check (quality_score between 0 and 100),
+  add column quality_signals jsonb not null default '{}'::jsonb;
+
+create or replace function public.survey_text_is_gibberish(_text text)
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  trimmed text := btrim(coalesce(_text, ''));
+  letters text;
+  vowels integer;
+begin
+  if char_length(trimmed) < 4 then
+    return false;
+  end if;
+
+  -- "aaaaaa", "!!!!!!"
+  if trimmed ~ '(.)\1{4,}' then
+    return true;
+  end if;
+
+  -- One long run without spaces that isn't a link.
+  if trimmed ~ '\S{30,}' and trimmed !~* 'https?://' then
+    return true;
+  end if;
+
+  -- Vowel and keyboard-row checks only make sense for Latin-script text.
+  letters := regexp_replace(lower(trimmed), '[^a-z]', '', 'g');
+  if char_length(letters) >= 6
+    and char_length(letters) >= 0.8 * char_length(regexp_replace(trimmed, '\s', '', 'g')) then
+    vowels := char_length(regexp_replace(letters, '[^aeiouy]', '', 'g'));
+    if vowels::numeric / char_length(letters) < 0.15 then
+      return true;
+    end if;
+
+    if letters ~ '(qwert|werty|asdfg|sdfgh|dfghj|fghjk|ghjkl|zxcvb|xcvbn|cvbnm|yuiop|hjkl)' then
+      return true;
+    end if;
+  end if;
+
+  return false;
+end;
+$$;
+
+create or replace function public.survey_normalized_text(_text text)
+returns text
+language sql
+immutable
+as $$
+  select lower(regexp_replace(btrim(_text), '\s+', ' ', 'g'));
+$$;
+
+create or replace function public.score_response(_response_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  response telegram_survey;
+  definition jsonb;
+  median_seconds numeric;
+  speeder boolean := false;
+  straight_lining text[];
+  gibberish text[];
+  duplicate_text text[];
+  score integer;
+begin
+  select * into response from telegram_survey where id = _response_id;
+  if not found then
+    return;
+  end if;
+
+  select sv.definition into definition from survey_versions sv where sv.id = response.survey_version_id;
+
+  -- Speeders are judged against the survey's own pace once there's enough data.
+  select percentile_cont(0.5) within group (order by t.completion_seconds) into median_seconds
+  from telegram_survey t
+  where t.survey_id = response.survey_id
+    and t.completion_seconds is not null
+  having count(*) >= 5;
+
+  if response.completion_seconds is not null and median_seconds is not null then
+    speeder := response.completion_seconds < 0.4 * median_seconds;
+  end if;
+
+  straight_lining := array(
+    select q.value ->> 'id'
+    from jsonb_array_elements(definition -> 'questions') q
+    where (
+      q.value ->> 'type' = 'multiple_choice'
+      and jsonb_array_length(coalesce(q.value -> 'options', '[]'::jsonb)) >= 4
+      and not exists (
+        select 1 from jsonb_array_elements(q.value -> 'options') o
+        where not coalesce(response.answers -> (q.value ->> 'id') ? (o.value ->> 'id'), false)
+      )
+    ) or (
+      q.value ->> 'type' = 'matrix'
+      and jsonb_array_length(coalesce(q.value -> 'rows', '[]'::jsonb)) >= 3
+      and jsonb_typeof(response.answers -> (q.value ->> 'id')) = 'object'
+      and (select count(*) from jsonb_each(response.answers -> (q.value ->> 'id'))) = jsonb_array_length(q.value -> 'rows')
+      and (select count(distinct e.value) from jsonb_each(response.answers -> (q.value ->> 'id')) e) = 1
+    )
+  );
+
+  gibberish := array(
+    select q.value ->> 'id'
+    from jsonb_array_elements(definition -> 'questions') q
+    where q.value ->> 'type' in ('text', 'long_text')
+      and public.survey_text_is_gibberish(response.answers ->> (q.value ->> 'id'))
+  );
+
+  -- Short answers ("no", "nothing") repeat naturally, so only longer text counts.
+  duplicate_text := array(
+    select q.value ->> 'id'
+    from jsonb_array_elements(definition -> 'questions') q
+    where q.value ->> 'type' in ('text', 'long_text')
+      and char_length(btrim(coalesce(response.answers ->> (q.value ->> 'id'), ''))) >= 20
+      and exists (
+        select 1
+        from telegram_survey other
+        where other.survey_id = response.survey_id
+          and other.id <> response.id
+          and public.survey_normalized_text(other.answers ->> (q.value ->> 'id'))
+            = public.survey_normalized_text(response.answers ->> (q.value ->> 'id'))
+      )
+  );
+
+  score := 100
+    - case when speeder then 40 else 0 end
+    - 20 * coalesce(array_length(straight_lining, 1), 0)
+    - 25 * coalesce(array_length(gibberish, 1), 0)
+    - 20 * coalesce(array_length(duplicate_text, 1), 0)
+    - case when response.quality_flag is not null then 50 else 0 end;
+
+  update telegram_survey
+  set quality_score = greatest(score, 0),
+      quality_signals = jsonb_strip_nulls(jsonb_build_object(
+        'speeder', case when speeder then true end,
+        'straight_lining', case when cardinality(straight_lining) > 0 then to_jsonb(straight_lining) end,
+        'gibberish', case when cardinality(gibberish) > 0 then to_jsonb(gibberish) end,
+        'duplicate_text', case when cardinality(duplicate_text) > 0 then to_jsonb(duplicate_text) end
+      ))
+  where id = _response_id;
+end;
+$$;
+
+-- Scores new responses, and rescores earlier ones whose free text the new
+-- response just duplicated.
+create or replace function public.score_new_response()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.score_response(new.id);
+
+  perform public.score_response(other.id)
+  from telegram_survey other
+  where other.survey_id = new.survey_id
+    and other.id <> new.id
+    and exists (
+      select 1
+      from jsonb_each_text(new.answers) a
+      where char_length(btrim(a.value)) >= 20
+        and public.survey_normalized_text(other.answers ->> a.key) = public.survey_normalized_text(a.value)
+    );
+
+  return null;
+end;
+$$;
+
+create trigger telegram_survey_score
+  after insert on public.telegram_survey
+  for each row execute function public.score_new_response();
+
+-- Medians move as responses come in; admins can rescore a whole survey.
+create or replace function public.rescore_responses(_survey_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rescored integer;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  perform public.score_response(id) from telegram_survey where survey_id = _survey_id;
+  get diagnostics rescored = row_count;
+
+  return rescored;
+end;
+$$;
+
+select public.score_response(id) from public.telegram_survey;
+
+drop function public.submit_response(uuid, uuid, jsonb, uuid, text, text);
+
+create or replace function public.submit_response(
+  _survey_id uuid,
+  _survey_version_id uuid,
+  _answers jsonb,
+  _resume_token uuid default null,
+  _quality_flag text default null,
+  _device_token text default null,
+  _completion_seconds integer default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  definition jsonb;
+  errors jsonb;
+  response_id uuid;
+begin
+  select sv.definition into definition
+  from survey_versions sv
+  join surveys s on s.id = sv.survey_id
+  where sv.id = _survey_version_id
+    and sv.survey_id = _survey_id
+    and s.is_active;
+
+  if definition is null then
+    raise exception 'survey % is not accepting responses', _survey_id using errcode = 'P0002';
+  end if;
+
+  errors := public.response_field_errors(definition, _answers);
+  if errors <> '{}'::jsonb then
+    return jsonb_build_object('errors', errors);
+  end if;
+
+  -- The original fixed columns are still filled for questions that share
+  -- their id, holding option ids like `answers`.
+  insert into telegram_survey (
+    survey_id,
+    survey_version_id,
+    answers,
+    quality_flag,
+    device_token,
+    completion_seconds,
+    name,
+    age_group,
+    usage_duration,
+    usage_reason,
+    content_preference,
+    regular_bots_or_channels,
+    recommend_telegram,
+    improvement_suggestions
+  )
+  values (
+    _survey_id,
+    _survey_version_id,
+    _answers,
+    _quality_flag,
+    _device_token,
+    _completion_seconds,
+    _answers ->> 'name',
+    _answers ->> 'age_group',
+    _answers ->> 'usage_duration',
+    case when jsonb_typeof(_answers -> 'usage_reason') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'usage_reason')) end,
+    case when jsonb_typeof(_answers -> 'content_preference') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'content_preference')) end,
+    _answers ->> 'regular_bots_or_channels',
+    _answers ->> 'recommend_telegram',
+    _answers ->> 'improvement_suggestions'
+  )
+  returning id into response_id;
+
+  if _resume_token is not null then
+    update survey_drafts
+    set completed_at = now(), updated_at = now()
+    where resume_token = _resume_token
+      and survey_id = _survey_id
+      and completed_at is null;
+  end if;
+
+  return jsonb_build_object('id', response_id);
+end;
+$$;
+
+-- Charts and totals can leave out low-quality responses. Unscored rows count
+-- as good quality.
+drop function public.get_answer_counts(uuid, uuid);
+drop function public.get_response_total(uuid, uuid);
+
+create or replace function public.get_answer_counts(
+  _survey_id uuid,
+  _survey_version_id uuid default null,
+  _min_quality integer default null
+)
+returns table (question text, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+    with chart_questions as (
+      select distinct q ->> 'id' as id
+      from survey_versions v, jsonb_array_elements(v.definition -> 'questions') as q
+      where v.survey_id = _survey_id
+        and (_survey_version_id is null or v.id = _survey_version_id)
+        and q ->> 'type' in ('single_choice', 'multiple_choice', 'rating', 'nps')
+    )
+    select cq.id, a.answer, count(*)
+    from telegram_survey r
+    join chart_questions cq on r.answers ? cq.id
+    cross join lateral (
+      select jsonb_array_elements_text(r.answers -> cq.id)
+      where jsonb_typeof(r.answers -> cq.id) = 'array'
+      union all
+      select r.answers ->> cq.id
+      where jsonb_typeof(r.answers -> cq.id) in ('string', 'number')
+    ) as a (answer)
+    where r.survey_id = _survey_id
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+    group by cq.id, a.answer;
+end;
+$$;
+
+create or replace function public.get_response_total(
+  _survey_id uuid,
+  _survey_version_id uuid default null,
+  _min_quality integer default null
+)
+returns bigint
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return (
+    select count(*)
+    from telegram_survey
+    where survey_id = _survey_id
+      and (_survey_version_id is null or survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(quality_score, 100) >= _min_quality)
+  );
+end;
+$$;
+
+revoke execute on function public.submit_response(uuid, uuid, jsonb, uuid, text, text, integer) from public, anon, authenticated;
+grant execute on function public.submit_response(uuid, uuid, jsonb, uuid, text, text, integer) to service_role;
+revoke execute on function public.score_response(uuid) from public, anon, authenticated;
+revoke execute on function public.rescore_responses(uuid) from anon;
+grant execute on function public.rescore_responses(uuid) to authenticated;
+revoke execute on function public.get_answer_counts(uuid, uuid, integer) from anon;
+revoke execute on function public.get_response_total(uuid, uuid, integer) from anon;
+grant execute on function public.get_answer_counts(uuid, uuid, integer) to authenticated;
+grant execute on function public.get_response_total(uuid, uuid, integer) to authenticated;
@@ -0,0 +1,129 @@
+-- Dashboard filters shared by the charts and the response list. Filters are
+-- a jsonb object built by toRpcFilters in src/lib/response-filters.ts:
+--   answers      {"<question id>": ["<option id>", ...]}; any listed option matches
+--   from, to     submitted_at >= from and < to
+--   search       case-insensitive text looked for in the search_keys answers
+
+create or replace function public.response_matches_filters(
+  _answers jsonb,
+  _submitted_at timestamptz,
+  _filters jsonb
+)
+returns boolean
+language sql
+stable
+as $$
+  select _filters is null or (
+    (_filters ->> 'from' is null or _submitted_at >= (_filters ->> 'from')::timestamptz)
+    and (_filters ->> 'to' is null or _submitted_at < (_filters ->> 'to')::timestamptz)
+    and not exists (
+      select 1
+      from jsonb_each(coalesce(_filters -> 'answers', '{}'::jsonb)) f
+      where jsonb_array_length(f.value) > 0
+        -- `?|` matches both a single-choice string and a multiple-choice array.
+        and not coalesce((_answers -> f.key) ?| array(select jsonb_array_elements_text(f.value)), false)
+    )
+    and (
+      coalesce(_filters ->> 'search', '') = ''
+      or exists (
+        select 1
+        from jsonb_array_elements_text(coalesce(_filters -> 'search_keys', '[]'::jsonb)) k
+        where strpos(lower(coalesce(_answers ->> k, '')), lower(_filters ->> 'search')) > 0
+      )
+    )
+  );
+$$;
+
+-- The response list. Runs as the caller, so RLS still limits rows to
+-- analysts and admins; the client adds ordering, paging and other filters.
+create or replace function public.filtered_responses(_survey_id uuid, _filters jsonb default null)
+returns setof public.telegram_survey
+language sql
+stable
+as $$
+  select *
+  from public.telegram_survey r
+  where r.survey_id = _survey_id
+    and public.response_matches_filters(r.answers, r.submitted_at, _filters);
+$$;
+
+drop function public.get_answer_counts(uuid, uuid, integer);
+drop function public.get_response_total(uuid, uuid, integer);
+
+create or replace function public.get_answer_counts(
+  _survey_id uuid,
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns table (question text, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+    with chart_questions as (
+      select distinct q ->> 'id' as id
+      from survey_versions v, jsonb_array_elements(v.definition -> 'questions') as q
+      where v.survey_id = _survey_id
+        and (_survey_version_id is null or v.id = _survey_version_id)
+        and q ->> 'type' in ('single_choice', 'multiple_choice', 'rating', 'nps')
+    )
+    select cq.id, a.answer, count(*)
+    from telegram_survey r
+    join chart_questions cq on r.answers ? cq.id
+    cross join lateral (
+      select jsonb_array_elements_text(r.answers -> cq.id)
+      where jsonb_typeof(r.answers -> cq.id) = 'array'
+      union all
+      select r.answers ->> cq.id
+      where jsonb_typeof(r.answers -> cq.id) in ('string', 'number')
+    ) as a (answer)
+    where r.survey_id = _survey_id
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(r.answers, r.submitted_at, _filters)
+    group by cq.id, a.answer;
+end;
+$$;
+
+create or replace function public.get_response_total(
+  _survey_id uuid,
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns bigint
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return (
+    select count(*)
+    from telegram_survey
+    where survey_id = _survey_id
+      and (_survey_version_id is null or survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(answers, submitted_at, _filters)
+  );
+end;
+$$;
+
+revoke execute on function public.filtered_responses(uuid, jsonb) from anon;
+revoke execute on function public.get_answer_counts(uuid, uuid, integer, jsonb) from anon;
+revoke execute on function public.get_response_total(uuid, uuid, integer, jsonb) from anon;
+grant execute on function public.filtered_responses(uuid, jsonb) to authenticated;
+grant execute on function public.get_answer_counts(uuid, uuid, integer, jsonb) to authenticated;
+grant execute on function public.get_response_total(uuid, uuid, integer, jsonb) to authenticated;
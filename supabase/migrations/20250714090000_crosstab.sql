@@ -0,0 +1,51 @@
+-- Cross-tabulation of two questions for the dashboard. Counts every pair of
+-- answers given in the same response, so a multiple choice question
+-- contributes one row or column per option picked.
+
+-- The answers a response gave to one question, one row per option.
+create or replace function public.response_answer_values(_answers jsonb, _question text)
+returns setof text
+language sql
+immutable
+as $$
+  select jsonb_array_elements_text(_answers -> _question)
+  where jsonb_typeof(_answers -> _question) = 'array'
+  union all
+  select _answers ->> _question
+  where jsonb_typeof(_answers -> _question) in ('string', 'number');
+$$;
+
+create or replace function public.get_crosstab(
+  _survey_id uuid,
+  _row_question text,
+  _column_question text,
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns table (row_answer text, column_answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  return query
+    select ra.answer, ca.answer, count(*)
+    from telegram_survey r
+    cross join lateral public.response_answer_values(r.answers, _row_question) as ra (answer)
+    cross join lateral public.response_answer_values(r.answers, _column_question) as ca (answer)
+    where r.survey_id = _survey_id
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(r.answers, r.submitted_at, _filters)
+    group by ra.answer, ca.answer;
+end;
+$$;
+
+revoke execute on function public.get_crosstab(uuid, text, text, uuid, integer, jsonb) from anon;
+grant execute on function public.get_crosstab(uuid, text, text, uuid, integer, jsonb) to authenticated;
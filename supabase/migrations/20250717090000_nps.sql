@@ -0,0 +1,94 @@
+-- Net Promoter Score for the Telegram survey, and answers over time.
+--
+-- The Yes/No/Maybe "Would you recommend Telegram?" question is replaced by a
+-- 0–10 NPS question in a new survey version. Old answers keep their own
+-- question id, so they are still charted, just not mixed into the score.
+
+with telegram as (
+  select id, definition
+  from public.surveys
+  where slug = 'telegram'
+    and definition -> 'questions' @> '[{"id": "recommend_telegram"}]'
+),
+updated as (
+  select t.id as survey_id,
+         jsonb_set(
+           t.definition,
+           '{questions}',
+           (
+             select jsonb_agg(
+               case
+                 when q ->> 'id' = 'recommend_telegram' then jsonb_strip_nulls(jsonb_build_object(
+                   'id', 'recommend_score',
+                   'type', 'nps',
+                   'title', 'How likely are you to recommend Telegram to a friend or colleague?',
+                   'required', true,
+                   'minLabel', 'Not at all likely',
+                   'maxLabel', 'Extremely likely',
+                   'section', q -> 'section'
+                 ))
+                 else q
+               end
+               order by position
+             )
+             from jsonb_array_elements(t.definition -> 'questions') with ordinality as qs (q, position)
+           )
+         ) as definition
+  from telegram t
+),
+saved as (
+  insert into public.survey_versions (survey_id, version, definition)
+  select u.survey_id,
+         (select max(version) + 1 from public.survey_versions where survey_id = u.survey_id),
+         u.definition
+  from updated u
+  returning id, survey_id, definition
+)
+update public.surveys s
+set definition = saved.definition,
+    current_version_id = saved.id,
+    updated_at = now()
+from saved
+where s.id = saved.survey_id;
+
+-- How often each answer to a question was given per day, week or month.
+-- Periods are calendar days in `_time_zone` (an IANA name such as
+-- 'Europe/Berlin'); weeks start on Monday.
+create or replace function public.get_answer_trend(
+  _survey_id uuid,
+  _question text,
+  _granularity text default 'week',
+  _time_zone text default 'UTC',
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns table (period date, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  if _granularity not in ('day', 'week', 'month') then
+    raise exception 'granularity must be day, week or month' using errcode = '22023';
+  end if;
+
+  return query
+    select date_trunc(_granularity, r.submitted_at at time zone _time_zone)::date, a.answer, count(*)
+    from telegram_survey r
+    cross join lateral public.response_answer_values(r.answers, _question) as a (answer)
+    where r.survey_id = _survey_id
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(r.answers, r.submitted_at, _filters)
+    group by 1, a.answer;
+end;
+$$;
+
+revoke execute on function public.get_answer_trend(uuid, text, text, text, uuid, integer, jsonb) from anon;
+grant execute on function public.get_answer_trend(uuid, text, text, text, uuid, integer, jsonb) to authenticated;
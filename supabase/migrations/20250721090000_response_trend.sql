@@ -0,0 +1,43 @@
+-- Responses per day, week or month for the dashboard's trends section.
+-- Periods follow get_answer_trend: calendar days in `_time_zone`, weeks
+-- starting on Monday. With `_question`, only responses that answered it
+-- are counted, which is the denominator for that question's option shares.
+
+create or replace function public.get_response_trend(
+  _survey_id uuid,
+  _granularity text default 'day',
+  _time_zone text default 'UTC',
+  _question text default null,
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns table (period date, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  if _granularity not in ('day', 'week', 'month') then
+    raise exception 'granularity must be day, week or month' using errcode = '22023';
+  end if;
+
+  return query
+    select date_trunc(_granularity, r.submitted_at at time zone _time_zone)::date, count(*)
+    from telegram_survey r
+    where r.survey_id = _survey_id
+      and (_question is null or exists (select 1 from public.response_answer_values(r.answers, _question)))
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(r.answers, r.submitted_at, _filters)
+    group by 1;
+end;
+$$;
+
+revoke execute on function public.get_response_trend(uuid, text, text, text, uuid, integer, jsonb) from anon;
+grant execute on function public.get_response_trend(uuid, text, text, text, uuid, integer, jsonb) to authenticated;
@@ -0,0 +1,5 @@
+-- Streams new responses to the dashboard over Supabase Realtime. Realtime
+-- checks each subscriber against the table's select policy, so only
+-- analysts and admins receive rows; viewers keep the aggregate RPCs.
+
+alter publication supabase_realtime add table public.telegram_survey;
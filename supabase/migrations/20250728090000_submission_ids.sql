@@ -0,0 +1,114 @@
+-- Idempotent submissions. The survey page gives every response a random
+-- submission_id and keeps it when it retries, e.g. from its offline queue
+-- or after a reply was lost on a flaky connection. A second call with the
+-- same id returns the response saved by the first instead of adding another.
+
+alter table public.telegram_survey
+  add column submission_id uuid unique;
+
+drop function public.submit_response(uuid, uuid, jsonb, uuid, text, text, integer);
+
+create or replace function public.submit_response(
+  _survey_id uuid,
+  _survey_version_id uuid,
+  _answers jsonb,
+  _resume_token uuid default null,
+  _quality_flag text default null,
+  _device_token text default null,
+  _completion_seconds integer default null,
+  _submission_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  definition jsonb;
+  errors jsonb;
+  response_id uuid;
+begin
+  if _submission_id is not null then
+    select id into response_id from telegram_survey where submission_id = _submission_id;
+    if response_id is not null then
+      return jsonb_build_object('id', response_id);
+    end if;
+  end if;
+
+  select sv.definition into definition
+  from survey_versions sv
+  join surveys s on s.id = sv.survey_id
+  where sv.id = _survey_version_id
+    and sv.survey_id = _survey_id
+    and s.is_active;
+
+  if definition is null then
+    raise exception 'survey % is not accepting responses', _survey_id using errcode = 'P0002';
+  end if;
+
+  errors := public.response_field_errors(definition, _answers);
+  if errors <> '{}'::jsonb then
+    return jsonb_build_object('errors', errors);
+  end if;
+
+  -- The original fixed columns are still filled for questions that share
+  -- their id, holding option ids like `answers`.
+  insert into telegram_survey (
+    survey_id,
+    survey_version_id,
+    submission_id,
+    answers,
+    quality_flag,
+    device_token,
+    completion_seconds,
+    name,
+    age_group,
+    usage_duration,
+    usage_reason,
+    content_preference,
+    regular_bots_or_channels,
+    recommend_telegram,
+    improvement_suggestions
+  )
+  values (
+    _survey_id,
+    _survey_version_id,
+    _submission_id,
+    _answers,
+    _quality_flag,
+    _device_token,
+    _completion_seconds,
+    _answers ->> 'name',
+    _answers ->> 'age_group',
+    _answers ->> 'usage_duration',
+    case when jsonb_typeof(_answers -> 'usage_reason') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'usage_reason')) end,
+    case when jsonb_typeof(_answers -> 'content_preference') = 'array'
+      then array(select jsonb_array_elements_text(_answers -> 'content_preference')) end,
+    _answers ->> 'regular_bots_or_channels',
+    _answers ->> 'recommend_telegram',
+    _answers ->> 'improvement_suggestions'
+  )
+  -- Two retries of the same submission racing each other.
+  on conflict (submission_id) do nothing
+  returning id into response_id;
+
+  if response_id is null then
+    select id into response_id from telegram_survey where submission_id = _submission_id;
+    return jsonb_build_object('id', response_id);
+  end if;
+
+  if _resume_token is not null then
+    update survey_drafts
+    set completed_at = now(), updated_at = now()
+    where resume_token = _resume_token
+      and survey_id = _survey_id
+      and completed_at is null;
+  end if;
+
+  return jsonb_build_object('id', response_id);
+end;
+$$;
+
+revoke execute on function public.submit_response(uuid, uuid, jsonb, uuid, text, text, integer, uuid) from public, anon, authenticated;
+grant execute on function public.submit_response(uuid, uuid, jsonb, uuid, text, text, integer, uuid) to service_role;
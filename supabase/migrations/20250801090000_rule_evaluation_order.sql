@@ -0,0 +1,100 @@
+-- evaluate_survey_rules let a matching show rule bring back a question in a
+-- skipped section, while evaluateRules in src/lib/survey-rules.ts keeps it
+-- hidden, so the trigger could reject answers the survey page had shown or
+-- require ones it hid. Skipped sections now win here too.
+-- src/lib/survey-rules.test.ts runs the same cases against both.
+
+-- Mirrors evaluateRules: answers to hidden questions are ignored while
+-- evaluating, repeating until the hidden set stops changing.
+create or replace function public.evaluate_survey_rules(
+  _definition jsonb,
+  _answers jsonb,
+  out hidden text[],
+  out required text[]
+)
+language plpgsql
+immutable
+as $$
+declare
+  rule jsonb;
+  visible jsonb;
+  matches boolean;
+  shown text[];
+  next_hidden text[];
+  skipped text[];
+  from_index integer;
+  to_index integer;
+  passes integer := 0;
+begin
+  hidden := '{}';
+
+  loop
+    select coalesce(jsonb_object_agg(key, value), '{}'::jsonb) into visible
+    from jsonb_each(_answers)
+    where split_part(key, ':', 1) <> all(hidden);
+
+    shown := '{}';
+    next_hidden := '{}';
+    required := '{}';
+    skipped := '{}';
+
+    for rule in select value from jsonb_array_elements(coalesce(_definition -> 'rules', '[]'::jsonb)) loop
+      if rule ->> 'match' = 'any' then
+        select coalesce(bool_or(public.survey_condition_matches(c.value, visible)), false) into matches
+        from jsonb_array_elements(rule -> 'when') c;
+      else
+        select coalesce(bool_and(public.survey_condition_matches(c.value, visible)), false) into matches
+        from jsonb_array_elements(rule -> 'when') c;
+      end if;
+
+      if rule ->> 'action' = 'show' then
+        if matches then
+          shown := shown || (rule ->> 'target');
+        else
+          next_hidden := next_hidden || (rule ->> 'target');
+        end if;
+      elsif matches and rule ->> 'action' = 'hide' then
+        next_hidden := next_hidden || (rule ->> 'target');
+      elsif matches and rule ->> 'action' = 'require' then
+        required := required || (rule ->> 'target');
+      elsif matches and rule ->> 'action' = 'skip_to' then
+        -- Section positions are 1-based; questions outside a section are 0.
+        select coalesce(max(s.position), 0) into from_index
+        from jsonb_array_elements(rule -> 'when') c
+        join jsonb_array_elements(_definition -> 'questions') q on q.value ->> 'id' = c.value ->> 'question'
+        left join jsonb_array_elements(coalesce(_definition -> 'sections', '[]'::jsonb)) with ordinality s(value, position)
+          on s.value ->> 'id' = q.value ->> 'section';
+
+        select coalesce(max(s.position), 0) into to_index
+        from jsonb_array_elements(coalesce(_definition -> 'sections', '[]'::jsonb)) with ordinality s(value, position)
+        where s.value ->> 'id' = rule ->> 'target';
+
+        skipped := skipped || array(
+          select s.value ->> 'id'
+          from jsonb_array_elements(coalesce(_definition -> 'sections', '[]'::jsonb)) with ordinality s(value, position)
+          where s.position > from_index and s.position < to_index
+        );
+      end if;
+    end loop;
+
+    -- A matching show rule wins over hide rules for the same target, but
+    -- not over a skipped section: the respondent never sees that page.
+    next_hidden := array(
+      select distinct id
+      from (
+        select id from unnest(next_hidden) id where id <> all(shown)
+        union
+        select q.value ->> 'id'
+        from jsonb_array_elements(_definition -> 'questions') q
+        where q.value ->> 'section' = any(skipped)
+      ) ids
+      order by id
+    );
+    required := array(select distinct id from unnest(required) id where id <> all(next_hidden) order by id);
+
+    passes := passes + 1;
+    exit when next_hidden = hidden or passes > jsonb_array_length(_definition -> 'questions');
+    hidden := next_hidden;
+  end loop;
+end;
+$$;
@@ -0,0 +1,129 @@
+-- Server-issued submission challenges. The survey page used to pick its own
+-- proof-of-work seed and start time, so one solved nonce could be replayed
+-- forever and an old startedAt got past the too_fast check. Now the
+-- start-submission edge function issues a challenge when the survey opens:
+-- its id is the proof-of-work seed and its issued_at is when the respondent
+-- started. submit-response claims it, so each one counts for one response.
+
+create table public.submission_challenges (
+  id uuid primary key default gen_random_uuid(),
+  survey_id uuid not null references public.surveys(id) on delete cascade,
+  issued_at timestamptz not null default now(),
+  used_at timestamptz,
+  -- The response that claimed it, so retries of that response still can.
+  submission_id uuid
+);
+
+alter table public.submission_challenges enable row level security;
+
+-- Attempts are now counted per kind of request: submissions, plus the
+-- challenges and draft saves anonymous visitors can also trigger.
+alter table public.submission_attempts
+  add column kind text not null default 'submission';
+
+create index submission_attempts_kind_ip_hash_created_at_idx
+  on public.submission_attempts (kind, ip_hash, created_at desc);
+
+create or replace function public.register_submission_attempt(
+  _survey_id uuid,
+  _ip_hash text,
+  _device_token text
+)
+returns table (ip_attempts bigint, device_responses bigint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into submission_attempts (survey_id, ip_hash, device_token)
+  values (_survey_id, _ip_hash, _device_token);
+
+  return query
+  select
+    (
+      select count(*)
+      from submission_attempts a
+      where a.kind = 'submission'
+        and a.ip_hash = _ip_hash
+        and a.created_at > now() - interval '1 hour'
+    ),
+    (
+      select count(*)
+      from telegram_survey t
+      where t.survey_id = _survey_id
+        and _device_token is not null
+        and t.device_token = _device_token
+    );
+end;
+$$;
+
+-- Records a request of another kind and returns how many of that kind the
+-- IP made in the last hour, this one included.
+create or replace function public.register_request(_kind text, _survey_id uuid, _ip_hash text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  attempts bigint;
+begin
+  insert into submission_attempts (kind, survey_id, ip_hash)
+  values (_kind, _survey_id, _ip_hash);
+
+  select count(*) into attempts
+  from submission_attempts a
+  where a.kind = _kind
+    and a.ip_hash = _ip_hash
+    and a.created_at > now() - interval '1 hour';
+
+  return attempts;
+end;
+$$;
+
+create or replace function public.issue_submission_challenge(_survey_id uuid)
+returns table (id uuid, issued_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from surveys s where s.id = _survey_id and s.is_active) then
+    raise exception 'survey % is not accepting responses', _survey_id using errcode = 'P0002';
+  end if;
+
+  return query
+  insert into submission_challenges as c (survey_id)
+  values (_survey_id)
+  returning c.id, c.issued_at;
+end;
+$$;
+
+-- Marks a challenge as used by a submission and returns when it was issued,
+-- or null if it doesn't exist, belongs to another survey or was already
+-- used by a different submission.
+create or replace function public.claim_submission_challenge(
+  _challenge_id uuid,
+  _survey_id uuid,
+  _submission_id uuid default null
+)
+returns timestamptz
+language sql
+security definer
+set search_path = public
+as $$
+  update submission_challenges
+  set used_at = coalesce(used_at, now()),
+      submission_id = coalesce(submission_id, _submission_id)
+  where id = _challenge_id
+    and survey_id = _survey_id
+    and (used_at is null or (_submission_id is not null and submission_id = _submission_id))
+  returning issued_at;
+$$;
+
+revoke execute on function public.register_request(text, uuid, text) from public, anon, authenticated;
+revoke execute on function public.issue_submission_challenge(uuid) from public, anon, authenticated;
+revoke execute on function public.claim_submission_challenge(uuid, uuid, uuid) from public, anon, authenticated;
+grant execute on function public.register_request(text, uuid, text) to service_role;
+grant execute on function public.issue_submission_challenge(uuid) to service_role;
+grant execute on function public.claim_submission_challenge(uuid, uuid, uuid) to service_role;
@@ -0,0 +1,61 @@
+-- Draft saves go through the save-draft edge function, which rate-limits
+-- them per IP like submissions, instead of straight from the browser: the
+-- anon key could otherwise write any number of drafts of any size. Answers
+-- are capped at 64 kB, far more than any survey's text limits allow.
+
+create or replace function public.save_survey_draft(
+  _survey_id uuid,
+  _survey_version_id uuid,
+  _answers jsonb,
+  _last_step integer,
+  _resume_token uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  token uuid;
+begin
+  if octet_length(coalesce(_answers, '{}'::jsonb)::text) > 65536 then
+    raise exception 'draft answers are larger than 64 kB' using errcode = '54000';
+  end if;
+
+  if not exists (
+    select 1
+    from survey_versions sv
+    join surveys s on s.id = sv.survey_id
+    where sv.id = _survey_version_id
+      and sv.survey_id = _survey_id
+      and s.is_active
+  ) then
+    raise exception 'survey % is not accepting responses', _survey_id using errcode = 'P0002';
+  end if;
+
+  if _resume_token is not null then
+    update survey_drafts
+    set survey_version_id = _survey_version_id,
+        answers = coalesce(_answers, '{}'::jsonb),
+        last_step = greatest(_last_step, 0),
+        updated_at = now()
+    where resume_token = _resume_token
+      and survey_id = _survey_id
+      and completed_at is null
+    returning resume_token into token;
+
+    if found then
+      return token;
+    end if;
+  end if;
+
+  insert into survey_drafts (survey_id, survey_version_id, answers, last_step)
+  values (_survey_id, _survey_version_id, coalesce(_answers, '{}'::jsonb), greatest(_last_step, 0))
+  returning resume_token into token;
+
+  return token;
+end;
+$$;
+
+revoke execute on function public.save_survey_draft(uuid, uuid, jsonb, integer, uuid) from public, anon, authenticated;
+grant execute on function public.save_survey_draft(uuid, uuid, jsonb, integer, uuid) to service_role;
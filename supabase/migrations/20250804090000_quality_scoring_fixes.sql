@@ -0,0 +1,177 @@
+-- Quality scoring fixes.
+--
+-- A quality_flag from submission protection took off exactly 50 points, so a
+-- flagged response with nothing else wrong scored 50 and stayed in when the
+-- dashboard excluded scores under 50. It now costs 60, so every flagged
+-- response counts as low quality.
+--
+-- Scoring also did work proportional to the whole survey on every insert:
+-- the median covered every response, and duplicate free text was found by
+-- normalizing every other response's answers. The median now covers the
+-- latest 500 responses (using telegram_survey_survey_id_submitted_at_idx),
+-- and long free-text answers are kept hashed in response_texts, indexed by
+-- survey, question and hash. Earlier responses are only rescored when the
+-- new one makes their text a duplicate for the first time.
+
+create table public.response_texts (
+  response_id uuid not null references public.telegram_survey(id) on delete cascade,
+  survey_id uuid not null references public.surveys(id) on delete cascade,
+  question_id text not null,
+  -- md5 of survey_normalized_text(answer).
+  text_hash text not null,
+  primary key (response_id, question_id)
+);
+
+create index response_texts_survey_id_question_id_text_hash_idx
+  on public.response_texts (survey_id, question_id, text_hash);
+
+-- Only the scoring functions (security definer) read or write it.
+alter table public.response_texts enable row level security;
+
+create or replace function public.score_response(_response_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  response telegram_survey;
+  definition jsonb;
+  median_seconds numeric;
+  speeder boolean := false;
+  straight_lining text[];
+  gibberish text[];
+  duplicate_text text[];
+  score integer;
+begin
+  select * into response from telegram_survey where id = _response_id;
+  if not found then
+    return;
+  end if;
+
+  select sv.definition into definition from survey_versions sv where sv.id = response.survey_version_id;
+
+  -- Speeders are judged against the pace of the survey's latest responses
+  -- once there's enough data.
+  select percentile_cont(0.5) within group (order by recent.completion_seconds) into median_seconds
+  from (
+    select t.completion_seconds
+    from telegram_survey t
+    where t.survey_id = response.survey_id
+      and t.completion_seconds is not null
+    order by t.submitted_at desc
+    limit 500
+  ) recent
+  having count(*) >= 5;
+
+  if response.completion_seconds is not null and median_seconds is not null then
+    speeder := response.completion_seconds < 0.4 * median_seconds;
+  end if;
+
+  straight_lining := array(
+    select q.value ->> 'id'
+    from jsonb_array_elements(definition -> 'questions') q
+    where (
+      q.value ->> 'type' = 'multiple_choice'
+      and jsonb_array_length(coalesce(q.value -> 'options', '[]'::jsonb)) >= 4
+      and not exists (
+        select 1 from jsonb_array_elements(q.value -> 'options') o
+        where not coalesce(response.answers -> (q.value ->> 'id') ? (o.value ->> 'id'), false)
+      )
+    ) or (
+      q.value ->> 'type' = 'matrix'
+      and jsonb_array_length(coalesce(q.value -> 'rows', '[]'::jsonb)) >= 3
+      and jsonb_typeof(response.answers -> (q.value ->> 'id')) = 'object'
+      and (select count(*) from jsonb_each(response.answers -> (q.value ->> 'id'))) = jsonb_array_length(q.value -> 'rows')
+      and (select count(distinct e.value) from jsonb_each(response.answers -> (q.value ->> 'id')) e) = 1
+    )
+  );
+
+  gibberish := array(
+    select q.value ->> 'id'
+    from jsonb_array_elements(definition -> 'questions') q
+    where q.value ->> 'type' in ('text', 'long_text')
+      and public.survey_text_is_gibberish(response.answers ->> (q.value ->> 'id'))
+  );
+
+  -- Short answers ("no", "nothing") repeat naturally, so only longer text counts.
+  delete from response_texts where response_id = response.id;
+  insert into response_texts (response_id, survey_id, question_id, text_hash)
+  select response.id, response.survey_id, q.value ->> 'id',
+    md5(public.survey_normalized_text(response.answers ->> (q.value ->> 'id')))
+  from jsonb_array_elements(definition -> 'questions') q
+  where q.value ->> 'type' in ('text', 'long_text')
+    and char_length(btrim(coalesce(response.answers ->> (q.value ->> 'id'), ''))) >= 20;
+
+  duplicate_text := array(
+    select q.value ->> 'id'
+    from jsonb_array_elements(definition -> 'questions') with ordinality q(value, position)
+    join response_texts own on own.response_id = response.id and own.question_id = q.value ->> 'id'
+    where exists (
+      select 1
+      from response_texts other
+      where other.survey_id = own.survey_id
+        and other.question_id = own.question_id
+        and other.text_hash = own.text_hash
+        and other.response_id <> own.response_id
+    )
+    order by q.position
+  );
+
+  score := 100
+    - case when speeder then 40 else 0 end
+    - 20 * coalesce(array_length(straight_lining, 1), 0)
+    - 25 * coalesce(array_length(gibberish, 1), 0)
+    - 20 * coalesce(array_length(duplicate_text, 1), 0)
+    - case when response.quality_flag is not null then 60 else 0 end;
+
+  update telegram_survey
+  set quality_score = greatest(score, 0),
+      quality_signals = jsonb_strip_nulls(jsonb_build_object(
+        'speeder', case when speeder then true end,
+        'straight_lining', case when cardinality(straight_lining) > 0 then to_jsonb(straight_lining) end,
+        'gibberish', case when cardinality(gibberish) > 0 then to_jsonb(gibberish) end,
+        'duplicate_text', case when cardinality(duplicate_text) > 0 then to_jsonb(duplicate_text) end
+      ))
+  where id = _response_id;
+end;
+$$;
+
+create or replace function public.score_new_response()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.score_response(new.id);
+
+  perform public.score_response(duplicates.response_id)
+  from (
+    select distinct other.response_id
+    from response_texts own
+    join response_texts other
+      on other.survey_id = own.survey_id
+      and other.question_id = own.question_id
+      and other.text_hash = own.text_hash
+      and other.response_id <> own.response_id
+    join telegram_survey t on t.id = other.response_id
+    where own.response_id = new.id
+      and not coalesce(t.quality_signals -> 'duplicate_text' ? own.question_id, false)
+  ) duplicates;
+
+  return null;
+end;
+$$;
+
+-- Every response's texts have to be in place before any is scored, or
+-- duplicates of later responses would be missed.
+insert into public.response_texts (response_id, survey_id, question_id, text_hash)
+select t.id, t.survey_id, q.value ->> 'id', md5(public.survey_normalized_text(t.answers ->> (q.value ->> 'id')))
+from public.telegram_survey t
+join public.survey_versions sv on sv.id = t.survey_version_id
+cross join jsonb_array_elements(sv.definition -> 'questions') q
+where q.value ->> 'type' in ('text', 'long_text')
+  and char_length(btrim(coalesce(t.answers ->> (q.value ->> 'id'), ''))) >= 20;
+
+select public.score_response(id) from public.telegram_survey;
@@ -0,0 +1,55 @@
+-- get_crosstab returns the answers themselves, so a viewer could read free
+-- text (names, suggestions) by passing a text question's id. Only allow the
+-- question types the dashboard charts.
+
+-- Whether _question is a chart question (single or multiple choice, rating
+-- or NPS) in every version of the survey that has it.
+create or replace function public.is_chart_question(_survey_id uuid, _question text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(bool_and(q ->> 'type' in ('single_choice', 'multiple_choice', 'rating', 'nps')), false)
+  from survey_versions v, jsonb_array_elements(v.definition -> 'questions') as q
+  where v.survey_id = _survey_id
+    and q ->> 'id' = _question;
+$$;
+
+create or replace function public.get_crosstab(
+  _survey_id uuid,
+  _row_question text,
+  _column_question text,
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns table (row_answer text, column_answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  if not public.is_chart_question(_survey_id, _row_question)
+    or not public.is_chart_question(_survey_id, _column_question) then
+    raise exception 'only chart questions can be cross-tabulated' using errcode = '42501';
+  end if;
+
+  return query
+    select ra.answer, ca.answer, count(*)
+    from telegram_survey r
+    cross join lateral public.response_answer_values(r.answers, _row_question) as ra (answer)
+    cross join lateral public.response_answer_values(r.answers, _column_question) as ca (answer)
+    where r.survey_id = _survey_id
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(r.answers, r.submitted_at, _filters)
+    group by ra.answer, ca.answer;
+end;
+$$;
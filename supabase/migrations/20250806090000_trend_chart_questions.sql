@@ -0,0 +1,83 @@
+-- get_answer_trend returns the answers themselves, so like get_crosstab it
+-- only takes chart questions. get_response_trend's `_question` is the
+-- denominator for the same chart and is held to the same rule.
+
+create or replace function public.get_answer_trend(
+  _survey_id uuid,
+  _question text,
+  _granularity text default 'week',
+  _time_zone text default 'UTC',
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns table (period date, answer text, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  if _granularity not in ('day', 'week', 'month') then
+    raise exception 'granularity must be day, week or month' using errcode = '22023';
+  end if;
+
+  if not public.is_chart_question(_survey_id, _question) then
+    raise exception 'only chart questions have answer trends' using errcode = '42501';
+  end if;
+
+  return query
+    select date_trunc(_granularity, r.submitted_at at time zone _time_zone)::date, a.answer, count(*)
+    from telegram_survey r
+    cross join lateral public.response_answer_values(r.answers, _question) as a (answer)
+    where r.survey_id = _survey_id
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(r.answers, r.submitted_at, _filters)
+    group by 1, a.answer;
+end;
+$$;
+
+create or replace function public.get_response_trend(
+  _survey_id uuid,
+  _granularity text default 'day',
+  _time_zone text default 'UTC',
+  _question text default null,
+  _survey_version_id uuid default null,
+  _min_quality integer default null,
+  _filters jsonb default null
+)
+returns table (period date, total bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['viewer', 'analyst', 'admin']::public.app_role[]) then
+    raise exception 'insufficient privileges' using errcode = '42501';
+  end if;
+
+  if _granularity not in ('day', 'week', 'month') then
+    raise exception 'granularity must be day, week or month' using errcode = '22023';
+  end if;
+
+  if _question is not null and not public.is_chart_question(_survey_id, _question) then
+    raise exception 'only chart questions have answer trends' using errcode = '42501';
+  end if;
+
+  return query
+    select date_trunc(_granularity, r.submitted_at at time zone _time_zone)::date, count(*)
+    from telegram_survey r
+    where r.survey_id = _survey_id
+      and (_question is null or exists (select 1 from public.response_answer_values(r.answers, _question)))
+      and (_survey_version_id is null or r.survey_version_id = _survey_version_id)
+      and (_min_quality is null or coalesce(r.quality_score, 100) >= _min_quality)
+      and public.response_matches_filters(r.answers, r.submitted_at, _filters)
+    group by 1;
+end;
+$$;
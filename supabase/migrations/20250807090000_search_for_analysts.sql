@@ -0,0 +1,34 @@
+-- The search keys come from the client, and the stats functions run as
+-- security definer, so a viewer could search names and other free text and
+-- read the answers back from match counts. Search is for the people who can
+-- read those answers anyway: for anyone else it matches nothing.
+
+create or replace function public.response_matches_filters(
+  _answers jsonb,
+  _submitted_at timestamptz,
+  _filters jsonb
+)
+returns boolean
+language sql
+stable
+as $$
+  select _filters is null or (
+    (_filters ->> 'from' is null or _submitted_at >= (_filters ->> 'from')::timestamptz)
+    and (_filters ->> 'to' is null or _submitted_at < (_filters ->> 'to')::timestamptz)
+    and not exists (
+      select 1
+      from jsonb_each(coalesce(_filters -> 'answers', '{}'::jsonb)) f
+      where jsonb_array_length(f.value) > 0
+        -- `?|` matches both a single-choice string and a multiple-choice array.
+        and not coalesce((_answers -> f.key) ?| array(select jsonb_array_elements_text(f.value)), false)
+    )
+    and (
+      coalesce(_filters ->> 'search', '') = ''
+      or public.has_any_role(auth.uid(), array['analyst', 'admin']::public.app_role[]) and exists (
+        select 1
+        from jsonb_array_elements_text(coalesce(_filters -> 'search_keys', '[]'::jsonb)) k
+        where strpos(lower(coalesce(_answers ->> k, '')), lower(_filters ->> 'search')) > 0
+      )
+    )
+  );
+$$;
@@ -1,8 +1,40 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { createHash } from "crypto";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lists the built assets in public/sw.js so the service worker caches them on
+// install. The list also names the cache, so every deploy changes sw.js and
+// browsers install the new worker.
+const precacheAssets = (): Plugin => {
+  let outDir = "dist";
+
+  return {
+    name: "precache-assets",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    writeBundle(_options, bundle) {
+      const assets = Object.keys(bundle).filter((file) => file.startsWith("assets/")).sort();
+      const build = createHash("sha256").update(assets.join("\n")).digest("hex").slice(0, 12);
+      const file = path.join(outDir, "sw.js");
+      const source = fs.readFileSync(file, "utf8");
+      const placeholders = {
+        "const BUILD = 'dev';": `const BUILD = '${build}';`,
+        "const ASSETS = [];": `const ASSETS = ${JSON.stringify(assets.map((asset) => `./${asset}`))};`,
+      };
+      const filled = Object.entries(placeholders).reduce((text, [placeholder, value]) => {
+        if (!text.includes(placeholder)) throw new Error(`precache-assets: sw.js has no \`${placeholder}\``);
+        return text.replace(placeholder, value);
+      }, source);
+      fs.writeFileSync(file, filled);
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,6 +45,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    precacheAssets(),
   ].filter(Boolean),
   resolve: {
     alias: {